@@ -0,0 +1,125 @@
+import { resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+
+import { parse } from 'acorn'
+import { moduleToFunction } from 'estree-util-module-to-function'
+import { walk } from 'estree-walker'
+
+const warmup = 3
+const iterations = 10
+
+// A build of another version can be passed to compare it with the current build. For example:
+//
+//   git worktree add ../baseline <ref>
+//   (cd ../baseline && npm ci && npx tsc --build)
+//   npm run benchmark -- ../baseline/dist/estree-util-module-to-function.js
+const [baselinePath] = process.argv.slice(2)
+
+/** @type {[string, typeof moduleToFunction][]} */
+const implementations = [['current', moduleToFunction]]
+if (baselinePath) {
+  const baseline = await import(pathToFileURL(resolve(baselinePath)).href)
+  implementations.unshift(['baseline', baseline.moduleToFunction])
+}
+
+/**
+ * Create the source code of a large module, similar to the output of MDX.
+ *
+ * @param {number} paragraphs
+ *   The number of paragraphs in the document.
+ * @returns {string}
+ *   The source code of the module.
+ */
+function createSource(paragraphs) {
+  const children = []
+  for (let index = 0; index < paragraphs; index += 1) {
+    children.push(`
+      _jsx(_components.h2, { id: 'section-${index}', children: 'Section ${index}' }),
+      '\\n',
+      _jsxs(_components.p, {
+        children: [
+          'Paragraph ${index} links to ',
+          _jsx(_components.a, { href: 'https://example.com/${index}', children: 'an example' }),
+          ' and renders ',
+          _jsx(Chart, { data: data[${index} % data.length], onClick: () => props.select(${index}) })
+        ]
+      }),
+      '\\n'
+    `)
+  }
+
+  return `
+    import { Fragment as _Fragment, jsx as _jsx, jsxs as _jsxs } from 'react/jsx-runtime'
+    import { Chart } from './chart.js'
+    import data from './data.json' with { type: 'json' }
+
+    export const frontmatter = { title: 'Benchmark', paragraphs: ${paragraphs} }
+
+    function _createMdxContent(props) {
+      const _components = { a: 'a', h2: 'h2', p: 'p', ...props.components }
+      return _jsxs(_Fragment, { children: [${children.join(',')}] })
+    }
+
+    export default function MDXContent(props = {}) {
+      const { wrapper: MDXLayout } = props.components || {}
+      return MDXLayout
+        ? _jsx(MDXLayout, { ...props, children: _jsx(_createMdxContent, { ...props }) })
+        : _createMdxContent(props)
+    }
+  `
+}
+
+/**
+ * Measure the average duration of a function.
+ *
+ * @template T
+ * @param {string} name
+ *   The name of the measurement.
+ * @param {() => T} setup
+ *   A function which creates the input for a single call. This isn’t measured.
+ * @param {(input: T) => unknown} fn
+ *   The function to measure. It’s called a few times before measuring.
+ * @returns {number}
+ *   The average duration in milliseconds.
+ */
+function measure(name, setup, fn) {
+  let duration = 0
+  for (let index = 0; index < warmup + iterations; index += 1) {
+    const input = setup()
+    const start = performance.now()
+    fn(input)
+    if (index >= warmup) {
+      duration += performance.now() - start
+    }
+  }
+
+  const average = duration / iterations
+  console.log(`${name}: ${average.toFixed(2)}ms`)
+  return average
+}
+
+for (const paragraphs of [100, 1000, 5000]) {
+  const source = createSource(paragraphs)
+  const ast = parse(source, { ecmaVersion: 'latest', sourceType: 'module' })
+
+  console.log(`\n${paragraphs} paragraphs`)
+  measure(
+    'estree-walker',
+    () => ast,
+    (input) => walk(input, {})
+  )
+  for (const options of [{}, { importName: 'customImport' }]) {
+    const durations = implementations.map(([name, transform]) =>
+      // The transform modifies the AST, so every call gets a freshly parsed AST.
+      measure(
+        `moduleToFunction ${JSON.stringify(options)} (${name})`,
+        () => parse(source, { ecmaVersion: 'latest', sourceType: 'module' }),
+        (input) => transform(input, options)
+      )
+    )
+
+    if (durations.length > 1) {
+      console.log(`speedup: ${(durations[0] / durations[1]).toFixed(2)}x`)
+    }
+  }
+}
@@ -3,6 +3,12 @@ import config from '@remcohaszing/eslint'
 export default [
   ...config,
   { ignores: ['fixtures'] },
+  {
+    files: ['benchmark/**'],
+    rules: {
+      'no-console': 'off'
+    }
+  },
   {
     rules: {
       'no-param-reassign': 'off',
@@ -1,9 +1,9 @@
 export default async () => {
   'use strict'
   const answer = 42
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     ['__proto__']: answer
-  }
+  })
 }
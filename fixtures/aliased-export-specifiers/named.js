@@ -2,9 +2,9 @@
 export default async (customImport) => {
   'use strict'
   const answer = 42
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     everything: answer
-  }
+  })
 }
@@ -1,8 +1,8 @@
 export default async () => {
   'use strict'
   const { 'use state': useAliasedState } = await import('react')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
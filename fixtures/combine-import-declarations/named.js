@@ -6,8 +6,8 @@ export default async (customImport) => {
     customImport('remark-parse'),
     customImport('./style.css')
   ])
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
@@ -5,8 +5,8 @@ export default async () => {
     import('remark-parse'),
     import('./style.css')
   ])
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
@@ -2,8 +2,8 @@
 export default async (customImport) => {
   'use strict'
   const { default: yaml, parse: parseYAML, stringify } = await customImport('yaml')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
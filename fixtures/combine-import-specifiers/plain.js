@@ -1,8 +1,8 @@
 export default async () => {
   'use strict'
   const { default: yaml, parse: parseYAML, stringify } = await import('yaml')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
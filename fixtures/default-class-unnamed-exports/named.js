@@ -2,9 +2,9 @@
 export default async (customImport) => {
   'use strict'
   class __default_export__ {}
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     default: __default_export__
-  }
+  })
 }
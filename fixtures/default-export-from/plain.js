@@ -1,9 +1,9 @@
 export default async () => {
   'use strict'
   const _imports = await import('module')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     default: _imports.default
-  }
+  })
 }
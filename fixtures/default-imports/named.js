@@ -2,8 +2,8 @@
 export default async (customImport) => {
   'use strict'
   const { default: remarkRehype } = await customImport('remark-rehype')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
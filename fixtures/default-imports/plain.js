@@ -1,8 +1,8 @@
 export default async () => {
   'use strict'
   const { default: remarkRehype } = await import('remark-rehype')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
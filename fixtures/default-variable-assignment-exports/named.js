@@ -3,9 +3,9 @@ export default async (customImport) => {
   'use strict'
   let variable
   const __default_export__ = (variable = 'value')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     default: __default_export__
-  }
+  })
 }
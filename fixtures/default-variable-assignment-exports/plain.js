@@ -2,9 +2,9 @@ export default async () => {
   'use strict'
   let variable
   const __default_export__ = (variable = 'value')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     default: __default_export__
-  }
+  })
 }
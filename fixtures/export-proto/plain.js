@@ -1,9 +1,9 @@
 export default async () => {
   'use strict'
   const __proto__ = 'silly'
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     ['__proto__']: __proto__
-  }
+  })
 }
@@ -0,0 +1,5 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  console.log('no exports')
+}
@@ -0,0 +1,4 @@
+export default async () => {
+  'use strict'
+  console.log('no exports')
+}
@@ -0,0 +1,12 @@
+import { a } from 'a'
+export * from 'b'
+export * from 'c'
+export { d } from 'd'
+export * as e from 'e'
+export let count = a
+export function increment() {
+  count += 1
+}
+const key = 'key'
+export { key as __proto__ }
+export default count
@@ -0,0 +1,60 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  Object.defineProperties(exports, {
+    d: {
+      enumerable: true,
+      get: () => _imports[3].d
+    },
+    e: {
+      enumerable: true,
+      get: () => _imports[4]
+    },
+    count: {
+      enumerable: true,
+      get: () => count
+    },
+    increment: {
+      enumerable: true,
+      get: () => increment
+    },
+    ['__proto__']: {
+      enumerable: true,
+      get: () => key
+    },
+    default: {
+      enumerable: true,
+      get: () => __default_export__
+    }
+  })
+  const _imports = await Promise.all([
+      customImport('a'),
+      customImport('b').then(({ default: _, ...m }) => m),
+      customImport('c').then(({ default: _, ...m }) => m),
+      customImport('d'),
+      customImport('e')
+    ]),
+    [{ a }] = _imports
+  function _namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+  }
+  _namespace(exports, _imports[1], _imports[2])
+  let count = a
+  function increment() {
+    count += 1
+  }
+  const key = 'key'
+  const __default_export__ = count
+}
@@ -0,0 +1,12 @@
+import { readFile } from 'node:fs/promises'
+import { helper } from 'shared-runtime'
+import { local } from './local.js'
+
+export * from 'shared-runtime'
+export { version } from './version.js'
+
+const name = './computed.js'
+export const content = await readFile(helper(local))
+export const builtin = import('node:fs/promises')
+export const custom = import('./dynamic.js')
+export const computed = import(name)
@@ -0,0 +1,49 @@
+export default async () => {
+  'use strict'
+  const _imports = await Promise.all([
+      import('node:fs/promises'),
+      import('shared-runtime'),
+      import('./local.js'),
+      import('shared-runtime').then(({ default: _, ...m }) => m),
+      import('./version.js')
+    ]),
+    [{ readFile }, { helper }, { local }] = _imports
+  const name = './computed.js'
+  const content = await readFile(helper(local))
+  const builtin = import('node:fs/promises')
+  const custom = import('./dynamic.js')
+  const computed = import(name)
+  function _namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+    const result = {
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module'
+    }
+    for (const name of Object.keys(exports).sort())
+      Object.defineProperty(result, name, Object.getOwnPropertyDescriptor(exports, name))
+    return Object.freeze(result)
+  }
+  return _namespace(
+    {
+      __proto__: null,
+      builtin,
+      computed,
+      content,
+      custom,
+      version: _imports[4].version
+    },
+    _imports[3]
+  )
+}
@@ -0,0 +1,28 @@
+import { readFile } from 'node:fs/promises'
+
+const local = 1
+var hoisted = globalThis
+export function fn(param) {
+  return [this, arguments, param, local, hoisted, fn, unknown, () => arguments]
+}
+export class Foo {
+  field = this
+  static {
+    this.x = Math.max(1, 2)
+  }
+  [console.log(this)]() {}
+}
+console.log(this, arguments, eval('local'), new Function('return this'))
+const object = { process, window: (window = 1), Foo }
+;({ undeclared, other = 2 } = object)
+try {
+} catch (error) {
+  error
+}
+label: for (const x of [1]) {
+  break label
+}
+const arrow = () => this
+typeof missing
+export { readFile }
+export { join } from 'node:path'
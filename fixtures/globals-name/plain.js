@@ -0,0 +1,41 @@
+export default async () => {
+  'use strict'
+  const _imports = await Promise.all([import('node:fs/promises'), import('node:path')]),
+    [{ readFile }] = _imports
+  const local = 1
+  var hoisted = scope.globalThis
+  function fn(param) {
+    return [this, arguments, param, local, hoisted, fn, scope.unknown, () => arguments]
+  }
+  class Foo {
+    field = this
+    static {
+      this.x = Math.max(1, 2)
+    }
+    [scope.console.log(void 0)]() {}
+  }
+  scope.console.log(void 0, scope.arguments, scope.eval('local'), new scope.Function('return this'))
+  const object = {
+    process: scope.process,
+    window: (scope.window = 1),
+    Foo
+  }
+  ;({ undeclared: scope.undeclared, other: scope.other = 2 } = object)
+  try {
+  } catch (error) {
+    error
+  }
+  label: for (const x of [1]) {
+    break label
+  }
+  const arrow = () => void 0
+  typeof scope.missing
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    Foo,
+    fn,
+    join: _imports[1].join,
+    readFile
+  })
+}
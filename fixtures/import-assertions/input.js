@@ -0,0 +1,5 @@
+// astring doesn’t support options for import expressions.
+const assert = { type: 'json' }
+import('./package.json', { assert: { type: 'json' } })
+import('./tsconfig.json', { assert })
+import('./.c8rc', { assert: { type: 'json' }, with: { type: 'json' } })
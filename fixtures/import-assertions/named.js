@@ -0,0 +1,27 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const assert = {
+    type: 'json'
+  }
+  customImport('./package.json', {
+    with: {
+      type: 'json'
+    }
+  })
+  customImport('./tsconfig.json', {
+    with: assert
+  })
+  customImport('./.c8rc', {
+    assert: {
+      type: 'json'
+    },
+    with: {
+      type: 'json'
+    }
+  })
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module'
+  })
+}
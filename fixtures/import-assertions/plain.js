@@ -0,0 +1,13 @@
+export default async () => {
+  'use strict'
+  const assert = {
+    type: 'json'
+  }
+  import('./package.json')
+  import('./tsconfig.json')
+  import('./.c8rc')
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module'
+  })
+}
@@ -4,44 +4,32 @@ export default async (customImport) => {
   const _imports = await Promise.all([
       customImport('./package.json', {
         with: {
-          with: {
-            type: 'json'
-          }
+          type: 'json'
         }
       }),
       customImport('./tsconfig.json', {
         with: {
-          with: {
-            type: 'jsonc'
-          }
+          type: 'jsonc'
         }
       }),
       customImport('./.c8rc', {
         with: {
-          with: {
-            type: 'json'
-          }
+          type: 'json'
         }
       }),
       customImport('./.remarkrc.yaml', {
         with: {
-          with: {
-            type: 'yaml'
-          }
+          type: 'yaml'
         }
       }),
       customImport('./.prettierrc.yaml', {
         with: {
-          with: {
-            type: 'yaml'
-          }
+          type: 'yaml'
         }
       }),
       customImport('./.eslintrc.yaml', {
         with: {
-          with: {
-            type: 'yaml'
-          }
+          type: 'yaml'
         }
       })
     ]),
@@ -51,11 +39,11 @@ export default async (customImport) => {
       'module-resolution': 'import'
     }
   })
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     default: _imports[3].default,
-    singleQuote: _imports[4].singleQuote,
-    eslint: _imports[5]
-  }
+    eslint: _imports[5],
+    singleQuote: _imports[4].singleQuote
+  })
 }
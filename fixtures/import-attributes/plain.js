@@ -10,11 +10,11 @@ export default async () => {
     ]),
     [{ default: pkg }, { compilerOptions }, c8] = _imports
   import('unified')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     default: _imports[3].default,
-    singleQuote: _imports[4].singleQuote,
-    eslint: _imports[5]
-  }
+    eslint: _imports[5],
+    singleQuote: _imports[4].singleQuote
+  })
 }
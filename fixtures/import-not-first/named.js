@@ -3,8 +3,8 @@ export default async (customImport) => {
   'use strict'
   await customImport('unified')
   console.log('This code runs after the import')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
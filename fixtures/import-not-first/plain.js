@@ -2,8 +2,8 @@ export default async () => {
   'use strict'
   await import('unified')
   console.log('This code runs after the import')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
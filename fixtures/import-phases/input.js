@@ -0,0 +1,13 @@
+// astring doesn’t support phases for import expressions.
+import defer * as lazy from './lazy.js'
+import source wasm from './module.wasm'
+import source attributed from './attributed.wasm' with { type: 'wasm' }
+import { eager } from './eager.js'
+
+export const instance = await WebAssembly.instantiate(wasm)
+export const value = lazy.value + eager
+export const deferred = import.defer('./dynamic.js')
+export const sourced = import.source('./dynamic.wasm', { with: { type: 'wasm' } })
+
+const options = { with: { type: 'wasm' } }
+export const dynamicOptions = import.source('./options.wasm', options)
@@ -0,0 +1,48 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const [lazy, wasm, attributed, { eager }] = await Promise.all([
+    customImport('./lazy.js', {
+      phase: 'defer'
+    }),
+    customImport('./module.wasm', {
+      phase: 'source'
+    }),
+    customImport('./attributed.wasm', {
+      with: {
+        type: 'wasm'
+      },
+      phase: 'source'
+    }),
+    customImport('./eager.js')
+  ])
+  const instance = await WebAssembly.instantiate(wasm)
+  const value = lazy.value + eager
+  const deferred = customImport('./dynamic.js', {
+    phase: 'defer'
+  })
+  const sourced = customImport('./dynamic.wasm', {
+    with: {
+      type: 'wasm'
+    },
+    phase: 'source'
+  })
+  const options = {
+    with: {
+      type: 'wasm'
+    }
+  }
+  const dynamicOptions = customImport('./options.wasm', {
+    ...options,
+    phase: 'source'
+  })
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    deferred,
+    dynamicOptions,
+    instance,
+    sourced,
+    value
+  })
+}
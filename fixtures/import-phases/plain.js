@@ -0,0 +1,28 @@
+export default async () => {
+  'use strict'
+  const [lazy, wasm, attributed, { eager }] = await Promise.all([
+    import('./lazy.js'),
+    import('./module.wasm'),
+    import('./attributed.wasm'),
+    import('./eager.js')
+  ])
+  const instance = await WebAssembly.instantiate(wasm)
+  const value = lazy.value + eager
+  const deferred = import('./dynamic.js')
+  const sourced = import('./dynamic.wasm')
+  const options = {
+    with: {
+      type: 'wasm'
+    }
+  }
+  const dynamicOptions = import('./options.wasm')
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    deferred,
+    dynamicOptions,
+    instance,
+    sourced,
+    value
+  })
+}
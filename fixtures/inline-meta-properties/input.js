@@ -0,0 +1,6 @@
+console.log(import.meta.url, import.meta['filename'], import.meta.dirname)
+console.log(import.meta.resolve('./dependency.js'))
+import.meta.url = 'file:///project/other.js'
+delete import.meta.dirname
+import.meta.filename++
+import.meta.custom
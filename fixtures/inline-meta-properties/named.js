@@ -0,0 +1,14 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  console.log('file:///project/module.js', '/project/module.js', '/project')
+  console.log(meta.resolve('./dependency.js'))
+  meta.url = 'file:///project/other.js'
+  delete meta.dirname
+  meta.filename++
+  meta.custom
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module'
+  })
+}
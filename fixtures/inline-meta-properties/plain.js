@@ -0,0 +1,13 @@
+export default async () => {
+  'use strict'
+  console.log('file:///project/module.js', '/project/module.js', '/project')
+  console.log(meta.resolve('./dependency.js'))
+  meta.url = 'file:///project/other.js'
+  delete meta.dirname
+  meta.filename++
+  meta.custom
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module'
+  })
+}
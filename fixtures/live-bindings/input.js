@@ -0,0 +1,9 @@
+export let count = 0
+export function increment() {
+  count += 1
+}
+const answer = 42
+export { answer as __proto__, answer as 'string literal' }
+export { member } from 'module'
+export * as namespace from 'namespace'
+export default function () {}
@@ -0,0 +1,34 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const _imports = await Promise.all([customImport('module'), customImport('namespace')])
+  let count = 0
+  function increment() {
+    count += 1
+  }
+  const answer = 42
+  function __default_export__() {}
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    get ['__proto__']() {
+      return answer
+    },
+    get count() {
+      return count
+    },
+    get default() {
+      return __default_export__
+    },
+    get increment() {
+      return increment
+    },
+    get member() {
+      return _imports[0].member
+    },
+    namespace: _imports[1],
+    get 'string literal'() {
+      return answer
+    }
+  })
+}
@@ -0,0 +1,33 @@
+export default async () => {
+  'use strict'
+  const _imports = await Promise.all([import('module'), import('namespace')])
+  let count = 0
+  function increment() {
+    count += 1
+  }
+  const answer = 42
+  function __default_export__() {}
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    get ['__proto__']() {
+      return answer
+    },
+    get count() {
+      return count
+    },
+    get default() {
+      return __default_export__
+    },
+    get increment() {
+      return increment
+    },
+    get member() {
+      return _imports[0].member
+    },
+    namespace: _imports[1],
+    get 'string literal'() {
+      return answer
+    }
+  })
+}
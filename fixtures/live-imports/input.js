@@ -0,0 +1,14 @@
+import fallback, { named, aliased as local, 'string name' as string } from './a.js'
+import other, * as namespace from './b.js'
+import { unused } from './c.js' with { type: 'json' }
+import defer * as deferred from './d.js'
+
+named()
+local`template`
+console.log(fallback, string, { named, local }, other, namespace.value, deferred.value)
+function shadow(named) {
+  return named
+}
+export { named, local as reexported, fallback as default, shadow }
+export { unused as json }
+export const value = named
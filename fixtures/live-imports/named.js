@@ -0,0 +1,50 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const _imports = await Promise.all([
+      customImport('./a.js'),
+      customImport('./b.js'),
+      customImport('./c.js', {
+        with: {
+          type: 'json'
+        }
+      }),
+      customImport('./d.js', {
+        phase: 'defer'
+      }),
+      customImport('./a.js'),
+      customImport('./c.js', {
+        with: {
+          type: 'json'
+        }
+      })
+    ]),
+    [_imported, namespace, _imported1, deferred] = _imports
+  ;(0, _imported.named)()
+  ;(0, _imported.aliased)`template`
+  console.log(
+    _imported.default,
+    _imported['string name'],
+    {
+      named: _imported.named,
+      local: _imported.aliased
+    },
+    namespace.default,
+    namespace.value,
+    deferred.value
+  )
+  function shadow(named) {
+    return named
+  }
+  const value = _imported.named
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    default: _imports[4].default,
+    json: _imports[5].unused,
+    named: _imports[4].named,
+    reexported: _imports[4].aliased,
+    shadow,
+    value
+  })
+}
@@ -0,0 +1,39 @@
+export default async () => {
+  'use strict'
+  const _imports = await Promise.all([
+      import('./a.js'),
+      import('./b.js'),
+      import('./c.js'),
+      import('./d.js'),
+      import('./a.js'),
+      import('./c.js')
+    ]),
+    [_imported, namespace, _imported1, deferred] = _imports
+  ;(0, _imported.named)()
+  ;(0, _imported.aliased)`template`
+  console.log(
+    _imported.default,
+    _imported['string name'],
+    {
+      named: _imported.named,
+      local: _imported.aliased
+    },
+    namespace.default,
+    namespace.value,
+    deferred.value
+  )
+  function shadow(named) {
+    return named
+  }
+  const value = _imported.named
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    default: _imports[4].default,
+    json: _imports[5].unused,
+    named: _imports[4].named,
+    reexported: _imports[4].aliased,
+    shadow,
+    value
+  })
+}
@@ -2,8 +2,8 @@
 export default async (customImport) => {
   'use strict'
   function strictFunction() {}
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
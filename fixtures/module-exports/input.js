@@ -0,0 +1,3 @@
+export * from 'b'
+export class Foo {}
+export default function () {}
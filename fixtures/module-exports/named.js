@@ -0,0 +1,33 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  Object.defineProperties(module.exports, {
+    Foo: {
+      enumerable: true,
+      get: () => Foo
+    },
+    default: {
+      enumerable: true,
+      get: () => $default_export
+    }
+  })
+  const $imports = await customImport('b').then(({ default: $ignored, ...$module }) => $module)
+  function $namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+  }
+  $namespace(module.exports, $imports)
+  class Foo {}
+  function $default_export() {}
+}
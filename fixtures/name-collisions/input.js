@@ -0,0 +1,9 @@
+const _imports = 'imports'
+let __default_export__ = 'default'
+function m(_) {
+  return _
+}
+export * from 'a'
+export * from 'b'
+export { value } from 'c'
+export default _imports + __default_export__
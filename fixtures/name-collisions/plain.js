@@ -0,0 +1,45 @@
+export default async () => {
+  'use strict'
+  const _imports1 = await Promise.all([
+    import('a').then(({ default: _1, ...m1 }) => m1),
+    import('b').then(({ default: _1, ...m1 }) => m1),
+    import('c')
+  ])
+  const _imports = 'imports'
+  let __default_export__ = 'default'
+  function m(_) {
+    return _
+  }
+  const __default_export__1 = _imports + __default_export__
+  function _namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+    const result = {
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module'
+    }
+    for (const name of Object.keys(exports).sort())
+      Object.defineProperty(result, name, Object.getOwnPropertyDescriptor(exports, name))
+    return Object.freeze(result)
+  }
+  return _namespace(
+    {
+      __proto__: null,
+      default: __default_export__1,
+      value: _imports1[2].value
+    },
+    _imports1[0],
+    _imports1[1]
+  )
+}
@@ -0,0 +1,5 @@
+const $imports = 'imports'
+export * from 'a'
+export * from 'b'
+export { value } from 'c'
+export default $imports
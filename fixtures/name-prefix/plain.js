@@ -0,0 +1,41 @@
+export default async () => {
+  'use strict'
+  const $imports1 = await Promise.all([
+    import('a').then(({ default: $ignored, ...$module }) => $module),
+    import('b').then(({ default: $ignored, ...$module }) => $module),
+    import('c')
+  ])
+  const $imports = 'imports'
+  const $default_export = $imports
+  function $namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+    const result = {
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module'
+    }
+    for (const name of Object.keys(exports).sort())
+      Object.defineProperty(result, name, Object.getOwnPropertyDescriptor(exports, name))
+    return Object.freeze(result)
+  }
+  return $namespace(
+    {
+      __proto__: null,
+      default: $default_export,
+      value: $imports1[2].value
+    },
+    $imports1[0],
+    $imports1[1]
+  )
+}
@@ -1,9 +1,9 @@
 export default async () => {
   'use strict'
   class Person {}
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     Person
-  }
+  })
 }
@@ -2,9 +2,9 @@
 export default async (customImport) => {
   'use strict'
   const _imports = await customImport('module')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     'some member': _imports.member
-  }
+  })
 }
@@ -1,9 +1,9 @@
 export default async () => {
   'use strict'
   function fn() {}
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     fn
-  }
+  })
 }
@@ -0,0 +1,14 @@
+async function fn() {
+  await Promise.resolve()
+}
+const arrow = async () => {
+  for await (const value of []) {
+    console.log(value)
+  }
+}
+export default async function () {
+  await fn(new.target)
+}
+export async function named() {
+  await arrow()
+}
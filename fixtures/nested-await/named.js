@@ -0,0 +1,24 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  async function fn() {
+    await Promise.resolve()
+  }
+  const arrow = async () => {
+    for await (const value of []) {
+      console.log(value)
+    }
+  }
+  async function __default_export__() {
+    await fn(new.target)
+  }
+  async function named() {
+    await arrow()
+  }
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    default: __default_export__,
+    named
+  })
+}
@@ -1,8 +1,8 @@
 export default async () => {
   'use strict'
   'use client'
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
@@ -0,0 +1,20 @@
+import used, { unused, helper as renamed } from './components.js'
+import * as unusedNamespace from './namespace.js'
+import { exported, shadowed } from './utils.js'
+import './polyfill.js'
+import defer * as deferred from './deferred.js'
+import { label, key, property } from './names.js'
+
+export { exported }
+export * from './all.js'
+export { shadowed as reexported } from './utils.js'
+
+label: for (;;) {
+  break label
+}
+
+function shadow(shadowed) {
+  return { key: shadowed, [property]: renamed() }
+}
+
+console.log(used, shadow, console.key)
@@ -0,0 +1,54 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const _imports = await Promise.all([
+      customImport('./components.js'),
+      customImport('./namespace.js'),
+      customImport('./utils.js'),
+      customImport('./polyfill.js'),
+      customImport('./names.js'),
+      customImport('./all.js').then(({ default: _, ...m }) => m),
+      customImport('./utils.js')
+    ]),
+    [{ default: used, helper: renamed }, , { exported }, , { property }] = _imports
+  label: for (;;) {
+    break label
+  }
+  function shadow(shadowed) {
+    return {
+      key: shadowed,
+      [property]: renamed()
+    }
+  }
+  console.log(used, shadow, console.key)
+  function _namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+    const result = {
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module'
+    }
+    for (const name of Object.keys(exports).sort())
+      Object.defineProperty(result, name, Object.getOwnPropertyDescriptor(exports, name))
+    return Object.freeze(result)
+  }
+  return _namespace(
+    {
+      __proto__: null,
+      exported,
+      reexported: _imports[6].shadowed
+    },
+    _imports[5]
+  )
+}
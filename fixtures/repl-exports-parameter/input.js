@@ -0,0 +1,5 @@
+export const answer = 42
+export default function () {}
+const _value = 'collision'
+answer * 2
+function later() {}
@@ -0,0 +1,28 @@
+export default async () => {
+  'use strict'
+  Object.defineProperties(exports, {
+    answer: {
+      enumerable: true,
+      get: () => answer
+    },
+    default: {
+      enumerable: true,
+      get: () => __default_export__
+    }
+  })
+  let _value1
+  const answer = 42
+  function __default_export__() {}
+  const _value = 'collision'
+  _value1 = answer * 2
+  function later() {}
+  return {
+    declarations: {
+      __proto__: null,
+      answer,
+      _value,
+      later
+    },
+    value: _value1
+  }
+}
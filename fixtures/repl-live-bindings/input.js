@@ -0,0 +1,3 @@
+export * from 'module'
+let count = 0
+count++
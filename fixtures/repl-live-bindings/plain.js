@@ -0,0 +1,44 @@
+export default async () => {
+  'use strict'
+  const $imports = await import('module').then(({ default: $ignored, ...$module }) => $module)
+  let $value
+  let count = 0
+  $value = count++
+  function $namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+    const result = {
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module'
+    }
+    for (const name of Object.keys(exports).sort())
+      Object.defineProperty(result, name, Object.getOwnPropertyDescriptor(exports, name))
+    return Object.freeze(result)
+  }
+  return {
+    declarations: {
+      __proto__: null,
+      get count() {
+        return count
+      }
+    },
+    exports: $namespace(
+      {
+        __proto__: null
+      },
+      $imports
+    ),
+    value: $value
+  }
+}
@@ -0,0 +1,17 @@
+'use strict'
+import { value } from 'module'
+const [a, { b }] = [1, { b: 2 }]
+let c
+var d = 4
+function e() {
+  return 'nested'
+}
+class F {}
+export const g = a + b
+export function h() {}
+export default class I {}
+if (a) {
+  b
+}
+e()
+c = value
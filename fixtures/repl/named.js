@@ -0,0 +1,48 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const { value } = await customImport('module')
+  let _value
+  const [a, { b }] = [
+    1,
+    {
+      b: 2
+    }
+  ]
+  let c
+  var d = 4
+  function e() {
+    return 'nested'
+  }
+  class F {}
+  const g = a + b
+  function h() {}
+  class I {}
+  if (a) {
+    b
+  }
+  e()
+  _value = c = value
+  return {
+    declarations: {
+      __proto__: null,
+      a,
+      b,
+      c,
+      d,
+      e,
+      F,
+      g,
+      h,
+      I
+    },
+    exports: Object.freeze({
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module',
+      default: I,
+      g,
+      h
+    }),
+    value: _value
+  }
+}
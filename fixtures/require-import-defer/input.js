@@ -0,0 +1,10 @@
+import defer * as lazy from './lazy.js'
+import defer * as other from './other.js' with { type: 'json' }
+import source wasm from './module.wasm'
+import { eager } from './eager.js'
+
+export function getValue() {
+  return lazy.value + other.value + eager
+}
+
+export { wasm }
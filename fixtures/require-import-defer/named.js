@@ -0,0 +1,57 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const [wasm, { eager }] = [
+    customRequire('./module.wasm', {
+      phase: 'source'
+    }),
+    customRequire('./eager.js')
+  ]
+  function _defer(load) {
+    const target = {
+        __proto__: null,
+        [Symbol.toStringTag]: 'Deferred Module'
+      },
+      handler = {}
+    let namespace
+    for (const trap of [
+      'defineProperty',
+      'deleteProperty',
+      'get',
+      'getOwnPropertyDescriptor',
+      'has',
+      'ownKeys',
+      'set'
+    ])
+      handler[trap] = (object, key, ...rest) => {
+        if (!namespace && typeof key !== 'symbol' && key !== 'then') {
+          namespace = load()
+          for (const name of Object.keys(namespace))
+            Object.defineProperty(target, name, {
+              enumerable: true,
+              get: () => namespace[name]
+            })
+          Object.freeze(target)
+        }
+        return Reflect[trap](object, key, ...rest)
+      }
+    return new Proxy(target, handler)
+  }
+  const lazy = _defer(() => customRequire('./lazy.js')),
+    other = _defer(() =>
+      customRequire('./other.js', {
+        with: {
+          type: 'json'
+        }
+      })
+    )
+  function getValue() {
+    return lazy.value + other.value + eager
+  }
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    getValue,
+    wasm
+  })
+}
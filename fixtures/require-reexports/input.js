@@ -0,0 +1,6 @@
+import { a } from 'a'
+export * from 'b'
+export { c } from 'c'
+export * as d from 'd'
+
+console.log(a)
@@ -0,0 +1,41 @@
+export default async () => {
+  'use strict'
+  const _imports = [
+      customRequire('a'),
+      (({ default: _, ...m }) => m)(customRequire('b')),
+      customRequire('c'),
+      customRequire('d')
+    ],
+    [{ a }] = _imports
+  console.log(a)
+  function _namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+    const result = {
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module'
+    }
+    for (const name of Object.keys(exports).sort())
+      Object.defineProperty(result, name, Object.getOwnPropertyDescriptor(exports, name))
+    return Object.freeze(result)
+  }
+  return _namespace(
+    {
+      __proto__: null,
+      c: _imports[2].c,
+      d: _imports[3]
+    },
+    _imports[1]
+  )
+}
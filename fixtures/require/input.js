@@ -0,0 +1,6 @@
+import 'polyfill'
+import { a } from 'a'
+import * as b from 'b'
+
+export const lazy = import('lazy')
+export default a + b
@@ -0,0 +1,13 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const [, { a }, b] = [customRequire('polyfill'), customRequire('a'), customRequire('b')]
+  const lazy = customImport('lazy')
+  const __default_export__ = a + b
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    default: __default_export__,
+    lazy
+  })
+}
@@ -0,0 +1,12 @@
+export default async () => {
+  'use strict'
+  const [, { a }, b] = [customRequire('polyfill'), customRequire('a'), customRequire('b')]
+  const lazy = import('lazy')
+  const __default_export__ = a + b
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    default: __default_export__,
+    lazy
+  })
+}
@@ -0,0 +1,9 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  ;[await customImport('first'), await customImport('second')]
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module'
+  })
+}
@@ -0,0 +1,8 @@
+export default async () => {
+  'use strict'
+  ;[await import('first'), await import('second')]
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module'
+  })
+}
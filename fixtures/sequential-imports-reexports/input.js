@@ -0,0 +1,7 @@
+import 'polyfill'
+import { a } from 'a'
+export * from 'b'
+export { c } from 'c'
+export * as d from 'd'
+
+console.log(a)
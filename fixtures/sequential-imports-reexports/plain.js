@@ -0,0 +1,42 @@
+export default async () => {
+  'use strict'
+  const _imports = [
+      await import('polyfill'),
+      await import('a'),
+      await import('b').then(({ default: _, ...m }) => m),
+      await import('c'),
+      await import('d')
+    ],
+    [, { a }] = _imports
+  console.log(a)
+  function _namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+    const result = {
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module'
+    }
+    for (const name of Object.keys(exports).sort())
+      Object.defineProperty(result, name, Object.getOwnPropertyDescriptor(exports, name))
+    return Object.freeze(result)
+  }
+  return _namespace(
+    {
+      __proto__: null,
+      c: _imports[3].c,
+      d: _imports[4]
+    },
+    _imports[2]
+  )
+}
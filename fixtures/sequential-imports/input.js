@@ -0,0 +1,7 @@
+import 'polyfill'
+import { a } from 'a'
+import * as b from 'b'
+import c, { d } from 'c'
+import 'unused'
+
+console.log(a, b, c, d)
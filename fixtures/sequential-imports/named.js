@@ -0,0 +1,16 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const [, { a }, b, { default: c, d }] = [
+    await customImport('polyfill'),
+    await customImport('a'),
+    await customImport('b'),
+    await customImport('c'),
+    await customImport('unused')
+  ]
+  console.log(a, b, c, d)
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module'
+  })
+}
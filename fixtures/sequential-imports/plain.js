@@ -0,0 +1,15 @@
+export default async () => {
+  'use strict'
+  const [, { a }, b, { default: c, d }] = [
+    await import('polyfill'),
+    await import('a'),
+    await import('b'),
+    await import('c'),
+    await import('unused')
+  ]
+  console.log(a, b, c, d)
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module'
+  })
+}
@@ -0,0 +1,11 @@
+import { value } from 'a'
+function getValue() {
+  return value
+}
+const Object = { value: getValue() }
+function Proxy() {
+  return Object
+}
+export { Object, Proxy }
+export class Reflect {}
+export default class {}
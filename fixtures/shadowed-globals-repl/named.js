@@ -0,0 +1,33 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const { value } = await customImport('a')
+  function getValue() {
+    return value
+  }
+  const $Object = {
+    value: getValue()
+  }
+  function $Proxy() {
+    return $Object
+  }
+  class $Reflect {}
+  class $default_export {}
+  return {
+    declarations: {
+      __proto__: null,
+      getValue,
+      Object: $Object,
+      Proxy: $Proxy,
+      Reflect: $Reflect
+    },
+    exports: Object.freeze({
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module',
+      Object: $Object,
+      Proxy: $Proxy,
+      Reflect: $Reflect,
+      default: $default_export
+    })
+  }
+}
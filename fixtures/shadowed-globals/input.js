@@ -0,0 +1,16 @@
+import Promise, { Proxy } from 'promise'
+export * from 'a'
+export * from 'b'
+export { Proxy }
+export const Object = { Promise }
+export function Reflect({ Symbol = Object }) {
+  return { Symbol, Object }
+}
+export default class Symbol {
+  static of(Object) {
+    return Object
+  }
+}
+if (Promise) {
+  var { Symbol: _Object } = Reflect({})
+}
@@ -0,0 +1,59 @@
+export default async () => {
+  'use strict'
+  const _imports = await Promise.all([
+      import('promise'),
+      import('a').then(({ default: _, ...m }) => m),
+      import('b').then(({ default: _, ...m }) => m)
+    ]),
+    [{ default: _Promise, Proxy: _Proxy }] = _imports
+  const _Object1 = {
+    Promise: _Promise
+  }
+  function _Reflect({ Symbol = _Object1 }) {
+    return {
+      Symbol,
+      Object: _Object1
+    }
+  }
+  class _Symbol {
+    static of(Object) {
+      return Object
+    }
+  }
+  if (_Promise) {
+    var { Symbol: _Object } = _Reflect({})
+  }
+  function _namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+    const result = {
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module'
+    }
+    for (const name of Object.keys(exports).sort())
+      Object.defineProperty(result, name, Object.getOwnPropertyDescriptor(exports, name))
+    return Object.freeze(result)
+  }
+  return _namespace(
+    {
+      __proto__: null,
+      Object: _Object1,
+      Proxy: _Proxy,
+      Reflect: _Reflect,
+      default: _Symbol
+    },
+    _imports[1],
+    _imports[2]
+  )
+}
@@ -2,9 +2,9 @@
 export default async (customImport) => {
   'use strict'
   const cat = 'meow'
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     cat
-  }
+  })
 }
@@ -1,9 +1,9 @@
 export default async () => {
   'use strict'
   const cat = 'meow'
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     cat
-  }
+  })
 }
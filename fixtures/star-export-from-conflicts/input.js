@@ -0,0 +1,7 @@
+import { value } from 'a'
+export * from 'a'
+export * from 'b'
+export * from 'c'
+export { shared } from 'c'
+export { value as zed }
+export const _namespace = 'collision'
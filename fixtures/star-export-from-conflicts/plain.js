@@ -0,0 +1,45 @@
+export default async () => {
+  'use strict'
+  const _imports = await Promise.all([
+      import('a'),
+      import('a').then(({ default: _, ...m }) => m),
+      import('b').then(({ default: _, ...m }) => m),
+      import('c').then(({ default: _, ...m }) => m),
+      import('c')
+    ]),
+    [{ value }] = _imports
+  const _namespace = 'collision'
+  function _namespace1(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+    const result = {
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module'
+    }
+    for (const name of Object.keys(exports).sort())
+      Object.defineProperty(result, name, Object.getOwnPropertyDescriptor(exports, name))
+    return Object.freeze(result)
+  }
+  return _namespace1(
+    {
+      __proto__: null,
+      _namespace,
+      shared: _imports[4].shared,
+      zed: value
+    },
+    _imports[1],
+    _imports[2],
+    _imports[3]
+  )
+}
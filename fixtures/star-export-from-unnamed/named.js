@@ -2,9 +2,32 @@
 export default async (customImport) => {
   'use strict'
   const _imports = await customImport('module').then(({ default: _, ...m }) => m)
-  return {
-    __proto__: null,
-    [Symbol.toStringTag]: 'Module',
-    ..._imports
+  function _namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+    const result = {
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module'
+    }
+    for (const name of Object.keys(exports).sort())
+      Object.defineProperty(result, name, Object.getOwnPropertyDescriptor(exports, name))
+    return Object.freeze(result)
   }
+  return _namespace(
+    {
+      __proto__: null
+    },
+    _imports
+  )
 }
@@ -1 +1,3 @@
-export * as reexport from 'module'
+export * from 'module'
+export * from 'other'
+export const local = 'local'
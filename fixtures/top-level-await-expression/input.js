@@ -0,0 +1,2 @@
+export default await import(`template`)
+const dynamic = import(`${'template'}`)
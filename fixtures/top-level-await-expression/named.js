@@ -0,0 +1,11 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const __default_export__ = await customImport(`template`)
+  const dynamic = customImport(`${'template'}`)
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    default: __default_export__
+  })
+}
@@ -0,0 +1,10 @@
+export default async () => {
+  'use strict'
+  const __default_export__ = await import(`template`)
+  const dynamic = import(`${'template'}`)
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    default: __default_export__
+  })
+}
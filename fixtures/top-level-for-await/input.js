@@ -0,0 +1,3 @@
+for await (const value of []) {
+  console.log(value)
+}
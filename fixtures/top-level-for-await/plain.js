@@ -0,0 +1,10 @@
+export default async () => {
+  'use strict'
+  for await (const value of []) {
+    console.log(value)
+  }
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module'
+  })
+}
@@ -0,0 +1,13 @@
+import data from './data.json' with { type: 'json' }
+import * as utils from './utils.js'
+export { helper } from './helper.js'
+export * from './all.js'
+
+const lazy = await import('./lazy.js')
+const computed = await import(`./locale/${data.locale}.js`)
+const awaited = import(await utils.resolve('plugin'))
+const joined = import(['./a', 'b.js'].map((part) => part).join('/'))
+
+export function* generate() {
+  yield import(yield 'specifier', { with: { type: 'json' } })
+}
@@ -0,0 +1,99 @@
+export default async () => {
+  'use strict'
+  const _imports = await Promise.all([
+      _trace(() => import('./data.json'), {
+        kind: 'static',
+        specifier: './data.json',
+        attributes: {
+          type: 'json'
+        }
+      }),
+      _trace(() => import('./utils.js'), {
+        kind: 'static',
+        specifier: './utils.js',
+        attributes: {}
+      }),
+      _trace(() => import('./helper.js'), {
+        kind: 'static',
+        specifier: './helper.js',
+        attributes: {}
+      }),
+      _trace(() => import('./all.js'), {
+        kind: 'static',
+        specifier: './all.js',
+        attributes: {}
+      }).then(({ default: _, ...m }) => m)
+    ]),
+    [{ default: data }, utils] = _imports
+  const lazy = await _trace(() => import('./lazy.js'), {
+    kind: 'dynamic',
+    specifier: './lazy.js',
+    attributes: {}
+  })
+  const computed = await _trace(() => import(`./locale/${data.locale}.js`), {
+    kind: 'dynamic',
+    attributes: {}
+  })
+  const awaited = _trace(
+    (
+      (source) => () =>
+        import(source)
+    )(await utils.resolve('plugin')),
+    {
+      kind: 'dynamic',
+      attributes: {}
+    }
+  )
+  const joined = _trace(() => import(['./a', 'b.js'].map((part) => part).join('/')), {
+    kind: 'dynamic',
+    attributes: {}
+  })
+  function* generate() {
+    yield _trace(
+      (
+        (source, options) => () =>
+          import(source)
+      )(yield 'specifier', {
+        with: {
+          type: 'json'
+        }
+      }),
+      {
+        kind: 'dynamic',
+        attributes: {
+          type: 'json'
+        }
+      }
+    )
+  }
+  function _namespace(exports, ...namespaces) {
+    const stars = {
+      __proto__: null
+    }
+    for (const namespace of namespaces)
+      for (const name in namespace)
+        stars[name] =
+          name in stars && !Object.is(stars[name], namespace[name]) ? stars : namespace[name]
+    for (const name in stars)
+      if (stars[name] !== stars && !Object.hasOwn(exports, name))
+        Object.defineProperty(exports, name, {
+          enumerable: true,
+          value: stars[name]
+        })
+    const result = {
+      __proto__: null,
+      [Symbol.toStringTag]: 'Module'
+    }
+    for (const name of Object.keys(exports).sort())
+      Object.defineProperty(result, name, Object.getOwnPropertyDescriptor(exports, name))
+    return Object.freeze(result)
+  }
+  return _namespace(
+    {
+      __proto__: null,
+      generate,
+      helper: _imports[2].helper
+    },
+    _imports[3]
+  )
+}
@@ -2,8 +2,8 @@
 export default async (customImport) => {
   'use strict'
   const { useState } = await customImport('react')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
@@ -0,0 +1,10 @@
+import { type Options, Props, used } from './types.js'
+
+export default interface Component {
+  props: Props
+}
+
+export default function render(props: Props, options?: Options): string
+export default function render(props: Props): string {
+  return used(props)
+}
@@ -0,0 +1,13 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const { used } = await customImport('./types.js')
+  function render(props) {
+    return used(props)
+  }
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    default: render
+  })
+}
@@ -0,0 +1,12 @@
+export default async () => {
+  'use strict'
+  const { used } = await import('./types.js')
+  function render(props) {
+    return used(props)
+  }
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module',
+    default: render
+  })
+}
@@ -0,0 +1,63 @@
+/** @param {import('estree-util-module-to-function').Import} customImport */
+export default async (customImport) => {
+  'use strict'
+  const [{ default: value, named, other: alias }, namespace] = await Promise.all([
+    customImport('module'),
+    customImport('namespace')
+  ])
+  value = 1
+  named++
+  ;[alias, { nested: namespace = {} }, ...value] = []
+  for (named of []);
+  for (alias in {});
+  namespace.property = 1
+  function shadowed(value, { named = 1 }, ...alias) {
+    value = 2
+    named = 3
+    alias = []
+  }
+  function hoisted() {
+    namespace = 1
+    var namespace
+  }
+  const expression = function value() {
+    value = 1
+  }
+  const arrow = () => {
+    const named = 1
+    {
+      let value
+      value = 1
+    }
+    try {
+      value = 1
+    } catch (named) {
+      named = 1
+    }
+    for (let value of []) value = 1
+    for (var alias; ; ) alias = 1
+    switch (named) {
+      case 1:
+        let value
+        value = 1
+    }
+  }
+  const Class = class value {
+    static {
+      let named
+      named = 1
+    }
+    method() {
+      value = 1
+    }
+  }
+  try {
+  } catch {
+    value = 1
+  }
+  for (let index = 0; ; ) named = 1
+  return Object.freeze({
+    __proto__: null,
+    [Symbol.toStringTag]: 'Module'
+  })
+}
@@ -2,10 +2,10 @@
 export default async (customImport) => {
   'use strict'
   const [one, , three] = counts
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     one,
     three
-  }
+  })
 }
@@ -1,10 +1,10 @@
 export default async () => {
   'use strict'
   const [one, , three] = counts
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     one,
     three
-  }
+  })
 }
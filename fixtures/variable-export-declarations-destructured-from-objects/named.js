@@ -2,10 +2,10 @@
 export default async (customImport) => {
   'use strict'
   const { age, name } = person
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     age,
     name
-  }
+  })
 }
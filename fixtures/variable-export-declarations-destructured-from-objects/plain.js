@@ -1,10 +1,10 @@
 export default async () => {
   'use strict'
   const { age, name } = person
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     age,
     name
-  }
+  })
 }
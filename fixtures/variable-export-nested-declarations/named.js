@@ -10,9 +10,9 @@ export default async (customImport) => {
       }
     ]
   } = original
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     exported
-  }
+  })
 }
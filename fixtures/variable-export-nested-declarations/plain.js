@@ -9,9 +9,9 @@ export default async () => {
       }
     ]
   } = original
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     exported
-  }
+  })
 }
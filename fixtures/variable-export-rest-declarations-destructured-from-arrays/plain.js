@@ -1,9 +1,9 @@
 export default async () => {
   'use strict'
   const [...more] = counts
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module',
     more
-  }
+  })
 }
@@ -2,8 +2,8 @@
 export default async (customImport) => {
   'use strict'
   const monaco = await customImport('monaco-editor')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
@@ -1,8 +1,8 @@
 export default async () => {
   'use strict'
   const monaco = await import('monaco-editor')
-  return {
+  return Object.freeze({
     __proto__: null,
     [Symbol.toStringTag]: 'Module'
-  }
+  })
 }
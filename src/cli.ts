@@ -0,0 +1,303 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises'
+import { basename, dirname, relative } from 'node:path'
+import { parseArgs } from 'node:util'
+
+import { Parser } from 'acorn'
+import importPhases from 'acorn-import-phases'
+import { generate, type Generator, GENERATOR, type State } from 'astring'
+import { type ImportExpression, type Node, type Program } from 'estree'
+import { SourceMapGenerator } from 'source-map'
+
+import { moduleToFunctionExpression } from './estree-util-module-to-function.js'
+
+const usage = `Usage: estree-util-module-to-function [options] [file]
+
+Convert an ES module into a function body. If no file or - is given, the module is read from stdin.
+
+Options:
+  --allow-global <name>      Access this global variable directly, may be repeated
+  --deny-global <name>       Only look up this global variable on the globals, may be repeated
+  --exports-name <name>      Define exports on the object with this name
+  --external <specifier>     Import this specifier natively, may be repeated
+  --format <format>          The output format: body, function, module, or iife (default: body).
+                             iife can’t be combined with options which add parameters
+  --globals-name <name>      Look up global variables on the object with this name
+  --import-name <name>       The name of the custom import function
+  --import-order <order>     How static imports are evaluated: parallel or sequential
+  --live-bindings            Export getters that reflect the current values of bindings
+  --live-imports             Read imported bindings when they are used
+  --meta-name <name>         The name to replace import.meta with
+  --prefix <prefix>          A prefix for generated identifiers
+  --remove-unused-imports    Remove import specifiers which are never referenced
+  --repl                     Treat the module as a REPL or notebook cell
+  --require-name <name>      Transform static imports into calls to this synchronous function
+  --trace-name <name>        Wrap every import in a call to the function with this name
+  --validate <mode>          Validate the module: collect or throw
+  -o, --output <file>        Write the output to this file instead of stdout
+  --source-map               Write a source map next to the output file, or inline it on stdout
+  -h, --help                 Show this help message
+`
+
+const parser = Parser.extend(importPhases())
+
+/**
+ * Options which add a parameter to the generated function.
+ */
+const parameterOptions = [
+  'exports-name',
+  'globals-name',
+  'import-name',
+  'meta-name',
+  'require-name',
+  'trace-name'
+] as const
+
+/**
+ * The phase of an import expression, as added by `acorn-import-phases`.
+ */
+interface ImportPhase {
+  /**
+   * The phase of the import, if any.
+   */
+  phase?: 'defer' | 'source'
+}
+
+/**
+ * An astring generator which also prints the phase and options of import expressions. Without
+ * these, native imports of JSON modules or deferred imports would behave differently.
+ */
+const generator: Generator = { ...GENERATOR }
+
+/**
+ * Print a node using the custom generator.
+ *
+ * @param node
+ *   The node to print.
+ * @param state
+ *   The astring state to write to.
+ */
+function printNode(node: Node, state: State): undefined {
+  Reflect.apply(generator[node.type], generator, [node, state])
+}
+
+/**
+ * Print an import expression including its phase and options.
+ *
+ * @param node
+ *   The import expression to print.
+ * @param state
+ *   The astring state to write to.
+ */
+function printImportExpression(node: ImportExpression, state: State): undefined {
+  const { phase } = node as ImportExpression & ImportPhase
+  state.write(phase ? `import.${phase}(` : 'import(', node)
+  printNode(node.source, state)
+  if (node.options) {
+    state.write(', ')
+    printNode(node.options, state)
+  }
+  state.write(')')
+}
+
+generator.ImportExpression = printImportExpression
+
+/**
+ * Check that an option value is one of the allowed choices.
+ *
+ * @param name
+ *   The name of the option.
+ * @param value
+ *   The value of the option.
+ * @param choices
+ *   The allowed values.
+ * @returns
+ *   The value.
+ */
+function parseChoice<T extends string>(
+  name: string,
+  value: string | undefined,
+  choices: T[]
+): T | undefined {
+  if (value == null || choices.includes(value as T)) {
+    return value as T | undefined
+  }
+
+  throw new Error(`Invalid value for --${name}: ${value}. Expected one of: ${choices.join(', ')}`)
+}
+
+/**
+ * Read all data from stdin.
+ *
+ * @returns
+ *   The data read from stdin.
+ */
+async function readStdin(): Promise<string> {
+  let result = ''
+  process.stdin.setEncoding('utf8')
+  for await (const chunk of process.stdin) {
+    result += chunk
+  }
+
+  return result
+}
+
+/**
+ * Run the command line interface.
+ *
+ * @param args
+ *   The command line arguments, without the executable and the script.
+ */
+async function main(args: string[]): Promise<undefined> {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      'allow-global': { type: 'string', multiple: true },
+      'deny-global': { type: 'string', multiple: true },
+      'exports-name': { type: 'string' },
+      external: { type: 'string', multiple: true },
+      format: { type: 'string', default: 'body' },
+      'globals-name': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      'import-name': { type: 'string' },
+      'import-order': { type: 'string' },
+      'live-bindings': { type: 'boolean' },
+      'live-imports': { type: 'boolean' },
+      'meta-name': { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      prefix: { type: 'string' },
+      'remove-unused-imports': { type: 'boolean' },
+      repl: { type: 'boolean' },
+      'require-name': { type: 'string' },
+      'source-map': { type: 'boolean' },
+      'trace-name': { type: 'string' },
+      validate: { type: 'string' }
+    }
+  })
+
+  if (values.help) {
+    process.stdout.write(usage)
+    return
+  }
+
+  if (positionals.length > 1) {
+    throw new Error(`Expected at most one file, but got ${positionals.length}`)
+  }
+
+  const format = parseChoice('format', values.format, ['body', 'function', 'iife', 'module'])
+  // An immediately invoked function is called without arguments.
+  const parameterOption = parameterOptions.find((name) => values[name] != null)
+  if (format === 'iife' && parameterOption) {
+    throw new Error(`--format iife can’t be combined with --${parameterOption}`)
+  }
+
+  const file = positionals[0] === '-' ? undefined : positionals[0]
+  const sourceFile = file ?? 'stdin'
+  const source = file == null ? await readStdin() : await readFile(file, 'utf8')
+  const ast = parser.parse(source, {
+    ecmaVersion: 'latest',
+    locations: true,
+    sourceFile,
+    sourceType: 'module'
+  }) as Program
+  const result = moduleToFunctionExpression(ast, {
+    allowGlobals: values['allow-global'],
+    denyGlobals: values['deny-global'],
+    exportsName: values['exports-name'],
+    externals: values.external,
+    globalsName: values['globals-name'],
+    importName: values['import-name'],
+    importOrder: parseChoice('import-order', values['import-order'], ['parallel', 'sequential']),
+    liveBindings: values['live-bindings'],
+    liveImports: values['live-imports'],
+    metaName: values['meta-name'],
+    // The exports name may be a property path, such as module.exports.
+    parameters: values['exports-name'] == null ? [] : [values['exports-name'].split('.')[0]],
+    prefix: values.prefix,
+    removeUnusedImports: values['remove-unused-imports'],
+    repl: values.repl,
+    requireName: values['require-name'],
+    traceName: values['trace-name'],
+    validate: parseChoice('validate', values.validate, ['collect', 'throw'])
+  })
+
+  for (const diagnostic of result.diagnostics) {
+    const { column, line } = diagnostic.loc!.start
+    process.stderr.write(
+      `${sourceFile}:${line}:${column + 1}: ${diagnostic.message} (${diagnostic.code})\n`
+    )
+  }
+
+  let program: Program
+  switch (format) {
+    case 'function':
+      ;({ program } = result)
+      break
+
+    case 'iife':
+      program = {
+        type: 'Program',
+        sourceType: 'script',
+        body: [
+          {
+            type: 'ExpressionStatement',
+            expression: {
+              type: 'CallExpression',
+              optional: false,
+              callee: result.function,
+              arguments: []
+            }
+          }
+        ]
+      }
+      break
+
+    case 'module':
+      program = {
+        type: 'Program',
+        sourceType: 'module',
+        body: [{ type: 'ExportDefaultDeclaration', declaration: result.function }]
+      }
+      break
+
+    default:
+      program = { type: 'Program', sourceType: 'script', body: result.function.body.body }
+  }
+
+  const { output } = values
+  // Astring uses the file of the source map generator as the source of every mapping. Sources are
+  // relative to the output file, or to the working directory if the source map is inlined.
+  const mapSource =
+    file == null ? sourceFile : relative(output == null ? process.cwd() : dirname(output), file)
+  const sourceMap = values['source-map'] ? new SourceMapGenerator({ file: mapSource }) : undefined
+  sourceMap?.setSourceContent(mapSource, source)
+  let code = generate(program, { generator, sourceMap })
+
+  if (sourceMap) {
+    const map = sourceMap.toJSON()
+    map.file = output == null ? '' : basename(output)
+    const json = JSON.stringify(map)
+
+    if (output == null) {
+      const base64 = Buffer.from(json).toString('base64')
+      code += `//# sourceMappingURL=data:application/json;base64,${base64}\n`
+    } else {
+      await writeFile(`${output}.map`, json)
+      code += `//# sourceMappingURL=${basename(output)}.map\n`
+    }
+  }
+
+  if (output == null) {
+    process.stdout.write(code)
+  } else {
+    await writeFile(output, code)
+  }
+}
+
+try {
+  await main(process.argv.slice(2))
+} catch (error) {
+  process.stderr.write(`${(error as Error).message}\n`)
+  process.exitCode = 1
+}
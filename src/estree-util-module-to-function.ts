@@ -1,337 +1,4079 @@
 import {
+  type ArrayExpression,
+  type ArrowFunctionExpression,
   type AssignmentProperty,
   type AwaitExpression,
+  type BaseNode,
+  type BlockStatement,
   type CallExpression,
   type ClassDeclaration,
   type Declaration,
+  type Directive,
   type ExportAllDeclaration,
   type ExportNamedDeclaration,
+  type ExportSpecifier,
   type Expression,
   type ExpressionStatement,
+  type Function,
   type FunctionDeclaration,
+  type FunctionExpression,
   type Identifier,
   type ImportAttribute,
   type ImportDeclaration,
   type ImportExpression,
+  type ImportNamespaceSpecifier,
   type Literal,
   type MemberExpression,
   type MetaProperty,
+  type MethodDefinition,
+  type Node,
   type ObjectExpression,
   type Pattern,
   type Program,
   type Property,
+  type SourceLocation,
   type SpreadElement,
+  type Statement,
+  type VariableDeclaration,
   type VariableDeclarator
 } from 'estree'
 import { walk } from 'estree-walker'
 
 /**
- * Convert import attributes to an object expression.
- *
- * @param attributes
- *   The import attributes to turn into an object.
- * @returns
- *   An object that represents the import attributes.
+ * The position information of a node as defined by Acorn and other parsers.
  */
-function convertImportAttributes(attributes: ImportAttribute[]): ObjectExpression {
-  return {
-    type: 'ObjectExpression',
-    properties: [
-      {
-        type: 'Property',
-        computed: false,
-        method: false,
-        shorthand: false,
-        kind: 'init',
-        key: { type: 'Identifier', name: 'with' },
-        value: {
-          type: 'ObjectExpression',
-          properties: attributes.map(({ key, value }) => ({
-            type: 'Property',
-            computed: false,
-            method: false,
-            shorthand: false,
-            kind: 'init',
-            key,
-            value
-          }))
-        }
-      }
-    ]
-  }
+interface Positioned {
+  /**
+   * The start offset of the node.
+   */
+  start?: number
+
+  /**
+   * The end offset of the node.
+   */
+  end?: number
+
+  /**
+   * The line and column information of the node.
+   */
+  loc?: null | SourceLocation
+
+  /**
+   * The start and end offset of the node.
+   */
+  range?: [number, number]
 }
 
 /**
- * @param node
- *   The import expression to convert to a call expression.
- * @param importName
- *   The name of the callee.
- * @returns
- *   The import expression converted to a call expression.
+ * A scope which is tracked while validating a module.
  */
-function convertImportExpression(node: ImportExpression, importName: string): CallExpression {
-  const callExpression: CallExpression = {
-    type: 'CallExpression',
-    optional: false,
-    callee: { type: 'Identifier', name: importName },
-    arguments: [node.source]
-  }
+interface Scope {
+  /**
+   * The node which creates the scope.
+   */
+  node: Node
 
-  if (node.options) {
-    callExpression.arguments.push(node.options)
-  }
+  /**
+   * The names declared in the scope.
+   */
+  names: Set<string>
+}
 
-  return callExpression
+/**
+ * A TypeScript entity name, as used in `import x = Foo.Bar`.
+ */
+type TSEntityName = Identifier | TSQualifiedName
+
+/**
+ * A qualified TypeScript entity name, such as `Foo.Bar`.
+ */
+interface TSQualifiedName extends BaseNode {
+  /**
+   * The type of the node.
+   */
+  type: 'TSQualifiedName'
+
+  /**
+   * The entity name on the left side of the dot.
+   */
+  left: TSEntityName
+
+  /**
+   * The identifier on the right side of the dot.
+   */
+  right: Identifier
 }
 
 /**
- * Convert an import meta property to a regular member expression.
- *
- * @param node
- *   THe import meta property to convert
- * @param importName
- *   The name of the object containing the meta property.
- * @returns
- *   The meta property represented as a member expression.
+ * A reference to an external module, as used in `import x = require('y')`.
  */
-function convertMetaProperty(node: MetaProperty, importName: string): MemberExpression {
-  return {
-    type: 'MemberExpression',
-    computed: false,
-    optional: false,
-    object: { type: 'Identifier', name: importName },
-    property: node.property
-  }
+interface TSExternalModuleReference extends BaseNode {
+  /**
+   * The type of the node.
+   */
+  type: 'TSExternalModuleReference'
+
+  /**
+   * The module specifier.
+   */
+  expression: Literal
 }
 
 /**
- * Find all export declarations of a node.
- *
- * @param node
- *   The node on which to find export declarations.
- * @returns
- *   The names of all export declarations found.
+ * A TypeScript import equals declaration, such as `import x = require('y')`.
  */
-function* findExportDeclarations(node: Pattern): Generator<string> {
-  if (node.type === 'Identifier') {
-    yield node.name
-  } else if (node.type === 'ObjectPattern') {
-    for (const property of node.properties) {
-      yield* findExportDeclarations(
-        property.type === 'RestElement' ? property.argument : property.value
-      )
-    }
-  } else if (node.type === 'ArrayPattern') {
-    for (const element of node.elements) {
-      if (element) {
-        yield* findExportDeclarations(element.type === 'RestElement' ? element.argument : element)
-      }
-    }
-  }
+interface TSImportEqualsDeclaration extends BaseNode {
+  /**
+   * The type of the node.
+   */
+  type: 'TSImportEqualsDeclaration'
+
+  /**
+   * The identifier which is declared.
+   */
+  id: Identifier
+
+  /**
+   * Whether this is a type-only import.
+   */
+  importKind: 'type' | 'value'
+
+  /**
+   * The module or entity which is imported.
+   */
+  moduleReference: TSEntityName | TSExternalModuleReference
 }
 
 /**
- * Check if two identifiers can be used for a shorthand property.
- *
- * @param a
- *   The first potential identifier node
- * @param b
- *   The other potential identifier node
- * @returns
- *   Whether `a` and `b` are equal identifier nodes.
+ * A TypeScript export assignment, such as `export = value`.
  */
-function isShorthand(a: Identifier | Literal, b: Expression): boolean {
-  return a.type === 'Identifier' && b.type === 'Identifier' && a.name === b.name
+interface TSExportAssignment extends BaseNode {
+  /**
+   * The type of the node.
+   */
+  type: 'TSExportAssignment'
+
+  /**
+   * The value which is exported.
+   */
+  expression: Expression
 }
 
 /**
- * Create a property that can be exported.
- *
- * @param key
- *   The key to export as.
- * @param value
- *   The value expression to export.
- * @returns
- *   A property for the returned exports.
+ * A TypeScript constructor parameter which also declares a class property, such as `private x`.
  */
-function createProperty(key: Identifier | Literal, value: Expression): Property {
-  let computed = false
-  if (key.type === 'Literal') {
-    if (key.value === '__proto__') {
-      computed = true
-    }
-  } else if (key.name === '__proto__') {
-    computed = true
-    key = { type: 'Literal', value: '__proto__' }
-  }
+interface TSParameterProperty extends BaseNode {
+  /**
+   * The type of the node.
+   */
+  type: 'TSParameterProperty'
 
-  return {
-    type: 'Property',
-    computed,
-    method: false,
-    shorthand: !computed && isShorthand(key, value),
-    kind: 'init',
-    key,
-    value
-  }
+  /**
+   * The parameter which is declared.
+   */
+  parameter: Pattern
 }
 
 /**
- * Extract all export names of a variable declaration.
- *
- * @param declaration
- *   The declaration of which to find all exported names.
- * @returns
- *   An array of properties.
+ * An imported binding which is read from the module namespace object when it’s used.
  */
-function extractExportNames(declaration: Declaration): Property[] {
-  const result: Property[] = []
+interface LiveImport {
+  /**
+   * The import declaration which declares the binding.
+   */
+  declaration: ImportDeclaration
 
-  if (declaration.type === 'VariableDeclaration') {
-    for (const declarator of declaration.declarations) {
-      for (const name of findExportDeclarations(declarator.id)) {
-        result.push(createProperty({ type: 'Identifier', name }, { type: 'Identifier', name }))
-      }
-    }
-  } else {
-    result.push(
-      createProperty(
-        { type: 'Identifier', name: declaration.id.name },
-        { type: 'Identifier', name: declaration.id.name }
-      )
-    )
-  }
+  /**
+   * The name of the export which is imported.
+   */
+  imported: Identifier | Literal
 
-  return result
+  /**
+   * The name of the module namespace object.
+   */
+  namespace: string
 }
 
 /**
- * Transform ESM import or re-export declarations into import expressions.
- *
- * @param node
- *   The ESM node to transform.
- * @param importName
- *   The import name to use for the custom import.
- * @returns
- *   The ESM declaration as an import expression.
+ * The properties TypeScript ESTree adds to import and export nodes to mark them as type-only.
  */
-function esmDeclarationToExpression(
-  node: ExportAllDeclaration | ExportNamedDeclaration | ImportDeclaration,
-  importName: string | undefined
-): CallExpression | ImportExpression {
-  let options: Expression | undefined
+interface TypeScriptModuleKind {
+  /**
+   * Whether an import declaration or specifier is type-only.
+   */
+  importKind?: 'type' | 'value'
 
-  // Older versions of ESTree might not define node.attributes
-  if (node.attributes?.length) {
-    options = {
-      type: 'ObjectExpression',
-      properties: [
-        {
-          type: 'Property',
-          computed: false,
-          method: false,
-          shorthand: false,
-          kind: 'init',
-          key: {
-            type: 'Identifier',
-            name: 'with'
-          },
-          value: convertImportAttributes(node.attributes)
-        }
-      ]
-    }
+  /**
+   * Whether an export declaration or specifier is type-only.
+   */
+  exportKind?: 'type' | 'value'
+}
+
+/**
+ * The property older parsers use instead of `attributes` to represent import assertions.
+ */
+interface ImportAssertions {
+  /**
+   * The import assertions of an import or export declaration.
+   */
+  assertions?: ImportAttribute[]
+}
+
+/**
+ * A string literal as represented by Babel.
+ */
+interface BabelStringLiteral extends BaseNode {
+  /**
+   * This is a Babel string literal.
+   */
+  type: 'StringLiteral'
+
+  /**
+   * The value of the string.
+   */
+  value: string
+
+  /**
+   * Additional information about the literal.
+   */
+  extra?: {
+    /**
+     * The string as it appears in the source code.
+     */
+    raw: string
   }
+}
 
-  if (importName) {
-    const callExpression: CallExpression = {
-      type: 'CallExpression',
-      optional: false,
-      callee: { type: 'Identifier', name: importName },
-      arguments: [node.source!]
-    }
+/**
+ * A directive as represented by Babel.
+ */
+interface BabelDirective extends BaseNode {
+  /**
+   * This is a Babel directive.
+   */
+  type: 'Directive'
+
+  /**
+   * The literal of the directive.
+   */
+  value: Omit<BabelStringLiteral, 'type'>
+}
+
+/**
+ * A private name as represented by Babel.
+ */
+interface BabelPrivateName extends BaseNode {
+  /**
+   * This is a Babel private name.
+   */
+  type: 'PrivateName'
+
+  /**
+   * The name without the leading `#`.
+   */
+  id: Identifier
+}
+
+/**
+ * A class or object method as represented by Babel. ESTree represents these as a function
+ * expression inside a method definition or property.
+ */
+interface BabelMethod extends BaseNode {
+  /**
+   * The type of the method.
+   */
+  type: 'ClassMethod' | 'ClassPrivateMethod' | 'ObjectMethod'
+
+  /**
+   * The kind of method.
+   */
+  kind: 'constructor' | 'get' | 'method' | 'set'
+
+  /**
+   * The key of the method.
+   */
+  key: BabelPrivateName | Expression
+
+  /**
+   * Whether the key is computed.
+   */
+  computed?: boolean
+
+  /**
+   * Whether this is a static class method.
+   */
+  static?: boolean
+
+  /**
+   * The parameters of the method.
+   */
+  params: Pattern[]
+
+  /**
+   * The body of the method.
+   */
+  body: BlockStatement
+
+  /**
+   * Whether the method is async.
+   */
+  async: boolean
+
+  /**
+   * Whether the method is a generator.
+   */
+  generator: boolean
+}
+
+/**
+ * The properties Babel adds to programs.
+ */
+interface BabelProgram {
+  /**
+   * The directive prologue of the program. ESTree represents these as expression statements.
+   */
+  directives?: BabelDirective[]
+}
+
+/**
+ * The property newer ESTree versions add to import declarations and import expressions to
+ * represent `import defer` and `import source`.
+ */
+interface ImportPhase {
+  /**
+   * The phase of the import. This is `null` or missing for regular imports.
+   */
+  phase?: 'defer' | 'source' | null
+}
+
+const positionKeys = ['start', 'end', 'loc', 'range'] as const
+
+/**
+ * TypeScript node types which hold runtime values. Other TypeScript nodes only describe types.
+ */
+const typeScriptValueTypes = new Set([
+  'TSAsExpression',
+  'TSInstantiationExpression',
+  'TSNonNullExpression',
+  'TSParameterProperty',
+  'TSSatisfiesExpression',
+  'TSTypeAssertion'
+])
+
+/**
+ * Global objects which generated code refers to. Module scope bindings must not shadow them.
+ */
+const generatedGlobals = new Set(['Object', 'Promise', 'Proxy', 'Reflect', 'Symbol'])
+
+/**
+ * Copy the position information of a node onto another node.
+ *
+ * This copies the `start`, `end`, `loc`, and `range` properties if they are present, so
+ * synthesized nodes map to the source they replace.
+ *
+ * @param node
+ *   The node to copy the position to.
+ * @param source
+ *   The node whose position to copy.
+ * @returns
+ *   The node with the position of the source node.
+ */
+function copyPosition<T extends moduleToFunction.Diagnostic | Node>(
+  node: T,
+  source: Positioned
+): T {
+  for (const key of positionKeys) {
+    if (key in source) {
+      Object.assign(node, { [key]: (source as Positioned)[key] })
+    }
+  }
+
+  return node
+}
+
+/**
+ * Check if a value is an ESTree node.
+ *
+ * @param value
+ *   The value to check.
+ * @returns
+ *   Whether the value is a node.
+ */
+function isNode(value: unknown): value is Node {
+  return typeof value === 'object' && value != null && typeof (value as Node).type === 'string'
+}
+
+/**
+ * Visit all descendants of a node depth-first, and replace or remove them if needed.
+ *
+ * Unlike `estree-walker`, this doesn’t create a context for every node. This makes a considerable
+ * difference for large ASTs.
+ *
+ * @param node
+ *   The node whose descendants to visit.
+ * @param visit
+ *   A function which is called for every descendant before its own descendants are visited. It
+ *   returns a node to replace the descendant with, `'remove'` to remove it from the list it’s in,
+ *   or `'skip'` to skip its descendants.
+ */
+function traverse(
+  node: Node,
+  visit: (child: Node, parent: Node) => 'remove' | 'skip' | Node | undefined
+): undefined {
+  const record = node as unknown as Record<string, unknown>
+  for (const key in record) {
+    // Most properties are primitives, so these are skipped early.
+    if (typeof record[key] !== 'object') {
+      continue
+    }
+
+    const value = record[key]
+    if (Array.isArray(value)) {
+      for (let index = 0; index < value.length; index += 1) {
+        const child: unknown = value[index]
+        if (!isNode(child)) {
+          continue
+        }
+
+        const result = visit(child, node)
+        if (result === 'remove') {
+          value.splice(index, 1)
+          index -= 1
+        } else if (result !== 'skip') {
+          value[index] = result ?? child
+          traverse(value[index] as Node, visit)
+        }
+      }
+    } else if (isNode(value)) {
+      const result = visit(value, node)
+      if (result !== 'remove' && result !== 'skip') {
+        record[key] = result ?? value
+        traverse(record[key] as Node, visit)
+      }
+    }
+  }
+}
+
+/**
+ * Collect the names of all identifiers in a program.
+ *
+ * This includes both bindings and references, so a name that isn’t in the result, can be declared
+ * anywhere in the program without shadowing or redeclaring anything.
+ *
+ * @param ast
+ *   The program to collect the identifier names of.
+ * @returns
+ *   A set of all identifier names in the program.
+ */
+function collectIdentifierNames(ast: Program): Set<string> {
+  const names = new Set<string>()
+
+  walk(ast, {
+    enter(node) {
+      if (node.type === 'Identifier') {
+        names.add(node.name)
+      }
+    }
+  })
+
+  return names
+}
+
+/**
+ * Generate a name which doesn’t collide with any of the given names.
+ *
+ * @param names
+ *   The names that are already in use. The generated name is added to this set.
+ * @param name
+ *   The preferred name. A numeric suffix is added if this name is already in use.
+ * @returns
+ *   A unique name.
+ */
+function uniqueName(names: Set<string>, name: string): string {
+  let result = name
+  for (let index = 1; names.has(result); index += 1) {
+    result = `${name}${index}`
+  }
+  names.add(result)
+  return result
+}
+
+/**
+ * Convert import attributes to an object expression.
+ *
+ * @param attributes
+ *   The import attributes to turn into an object.
+ * @returns
+ *   An object that represents the import attributes.
+ */
+function convertImportAttributes(attributes: ImportAttribute[]): ObjectExpression {
+  return {
+    type: 'ObjectExpression',
+    properties: attributes.map(({ key, value }) => ({
+      type: 'Property',
+      computed: false,
+      method: false,
+      shorthand: false,
+      kind: 'init',
+      key,
+      value
+    }))
+  }
+}
+
+/**
+ * Get the phase of an import declaration or import expression.
+ *
+ * @param node
+ *   The node to get the phase of.
+ * @returns
+ *   The phase of the import, or `undefined` for regular imports.
+ */
+function getPhase(node: object): 'defer' | 'source' | undefined {
+  return (node as ImportPhase).phase ?? undefined
+}
+
+/**
+ * Create a property which passes the phase of an import to a custom import function.
+ *
+ * @param phase
+ *   The phase of the import.
+ * @returns
+ *   A property whose key is `phase` and whose value is the phase.
+ */
+function createPhaseProperty(phase: 'defer' | 'source'): Property {
+  return {
+    type: 'Property',
+    computed: false,
+    method: false,
+    shorthand: false,
+    kind: 'init',
+    key: { type: 'Identifier', name: 'phase' },
+    value: { type: 'Literal', value: phase }
+  }
+}
+
+/**
+ * @param node
+ *   The import expression to convert to a call expression.
+ * @param importName
+ *   The name of the callee.
+ * @returns
+ *   The import expression converted to a call expression.
+ */
+function convertImportExpression(node: ImportExpression, importName: string): CallExpression {
+  const callExpression: CallExpression = copyPosition(
+    {
+      type: 'CallExpression',
+      optional: false,
+      callee: copyPosition({ type: 'Identifier', name: importName }, node),
+      arguments: [node.source]
+    },
+    node
+  )
+  const phase = getPhase(node)
+
+  // The phase is passed as an option, so the custom import function can tell phases apart.
+  if (phase) {
+    const properties: (Property | SpreadElement)[] = []
+    if (node.options?.type === 'ObjectExpression') {
+      properties.push(...node.options.properties)
+    } else if (node.options) {
+      properties.push({ type: 'SpreadElement', argument: node.options })
+    }
+    properties.push(createPhaseProperty(phase))
+    callExpression.arguments.push({ type: 'ObjectExpression', properties })
+  } else if (node.options) {
+    callExpression.arguments.push(node.options)
+  }
+
+  return callExpression
+}
+
+/**
+ * Convert an import meta property to a regular member expression.
+ *
+ * @param node
+ *   THe import meta property to convert
+ * @param importName
+ *   The name of the object containing the meta property.
+ * @returns
+ *   The meta property represented as a member expression.
+ */
+function convertMetaProperty(node: MetaProperty, importName: string): MemberExpression {
+  return copyPosition(
+    {
+      type: 'MemberExpression',
+      computed: false,
+      optional: false,
+      object: copyPosition({ type: 'Identifier', name: importName }, node.meta),
+      property: node.property
+    },
+    node
+  )
+}
+
+/**
+ * Get the name of the `import.meta` property a node accesses.
+ *
+ * @param node
+ *   The node to check.
+ * @returns
+ *   The property name if the node is a member expression of `import.meta` with a static property,
+ *   otherwise `undefined`.
+ */
+function getMetaPropertyName(node: Node): string | undefined {
+  if (
+    node.type !== 'MemberExpression' ||
+    node.object.type !== 'MetaProperty' ||
+    node.object.meta.name !== 'import'
+  ) {
+    return
+  }
+
+  if (!node.computed) {
+    return (node.property as Identifier).name
+  }
+
+  if (node.property.type === 'Literal' && typeof node.property.value === 'string') {
+    return node.property.value
+  }
+}
+
+/**
+ * Check if a member expression is assigned to, updated, or deleted.
+ *
+ * @param node
+ *   The member expression to check.
+ * @param parent
+ *   The parent node of the member expression.
+ * @returns
+ *   Whether the member expression is written to, so it can’t be replaced with its value.
+ */
+function isAssignmentTarget(node: MemberExpression, parent: Node | null): boolean {
+  switch (parent?.type) {
+    case 'AssignmentExpression':
+      return parent.left === node
+
+    case 'UpdateExpression':
+      return true
+
+    case 'UnaryExpression':
+      return parent.operator === 'delete'
+
+    default:
+      return false
+  }
+}
+
+/**
+ * Find all identifiers bound by a pattern.
+ *
+ * @param node
+ *   The pattern on which to find bound identifiers.
+ * @returns
+ *   The identifiers bound by the pattern. Member expressions don’t bind anything, so they’re
+ *   skipped.
+ */
+function* findBindingIdentifiers(node: Pattern): Generator<Identifier> {
+  if (node.type === 'Identifier') {
+    yield node
+  } else if (node.type === 'ObjectPattern') {
+    for (const property of node.properties) {
+      yield* findBindingIdentifiers(property.type === 'RestElement' ? property : property.value)
+    }
+  } else if (node.type === 'ArrayPattern') {
+    for (const element of node.elements) {
+      if (element) {
+        yield* findBindingIdentifiers(element)
+      }
+    }
+  } else if (node.type === 'RestElement') {
+    yield* findBindingIdentifiers(node.argument)
+  } else if (node.type === 'AssignmentPattern') {
+    yield* findBindingIdentifiers(node.left)
+  } else if ((node.type as string) === 'TSParameterProperty') {
+    yield* findBindingIdentifiers((node as BaseNode as TSParameterProperty).parameter)
+  }
+}
+
+/**
+ * Find all identifiers declared by a declaration.
+ *
+ * @param declaration
+ *   The declaration on which to find declared identifiers.
+ * @returns
+ *   The identifiers declared by the declaration.
+ */
+function* findDeclarationIdentifiers(declaration: Declaration): Generator<Identifier> {
+  if (declaration.type === 'VariableDeclaration') {
+    for (const declarator of declaration.declarations) {
+      yield* findBindingIdentifiers(declarator.id)
+    }
+  } else {
+    yield declaration.id
+  }
+}
+
+/**
+ * Get the name represented by an identifier or string literal.
+ *
+ * @param node
+ *   The identifier or string literal of a module export name.
+ * @returns
+ *   The name as a string.
+ */
+function getName(node: Identifier | Literal): string {
+  return node.type === 'Identifier' ? node.name : String(node.value)
+}
+
+/**
+ * Compare export properties by their export names in code unit order.
+ *
+ * @param a
+ *   The first property to compare.
+ * @param b
+ *   The second property to compare.
+ * @returns
+ *   A negative number if `a` sorts before `b`, otherwise a positive number.
+ */
+function compareExportProperties(a: Property, b: Property): number {
+  return getName(a.key as Identifier | Literal) < getName(b.key as Identifier | Literal) ? -1 : 1
+}
+
+/**
+ * Convert import attributes to a plain object.
+ *
+ * @param attributes
+ *   The import attributes to convert, if any.
+ * @returns
+ *   An object which maps import attribute keys to their values.
+ */
+function getAttributes(attributes: ImportAttribute[] | undefined): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  // Older versions of ESTree might not define node.attributes
+  if (attributes) {
+    for (const { key, value } of attributes) {
+      result[getName(key)] = String(value.value)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Rename the legacy `assert` option of an import expression to `with`.
+ *
+ * The option is only renamed if the options are an object expression which doesn’t have a `with`
+ * option already.
+ *
+ * @param options
+ *   The options of the import expression.
+ */
+function convertImportAssertionsOption(options: Expression | null | undefined): undefined {
+  if (options?.type !== 'ObjectExpression') {
+    return
+  }
+
+  let assertProperty: Property | undefined
+  for (const property of options.properties) {
+    if (property.type === 'Property' && !property.computed) {
+      const name = getName(property.key as Identifier | Literal)
+      if (name === 'with') {
+        return
+      }
+
+      if (name === 'assert') {
+        assertProperty = property
+      }
+    }
+  }
+
+  if (assertProperty) {
+    assertProperty.key = copyPosition({ type: 'Identifier', name: 'with' }, assertProperty.key)
+    assertProperty.shorthand = false
+  }
+}
+
+/**
+ * Get the import attributes of an import expression.
+ *
+ * Only attributes which are statically defined using literals are returned.
+ *
+ * @param options
+ *   The options argument of the import expression, if any.
+ * @returns
+ *   An object which maps import attribute keys to their values.
+ */
+function getImportExpressionAttributes(
+  options: Expression | null | undefined
+): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  if (options?.type !== 'ObjectExpression') {
+    return result
+  }
+
+  for (const property of options.properties) {
+    if (
+      property.type === 'Property' &&
+      !property.computed &&
+      getName(property.key as Identifier | Literal) === 'with' &&
+      property.value.type === 'ObjectExpression'
+    ) {
+      for (const attribute of property.value.properties) {
+        if (
+          attribute.type === 'Property' &&
+          !attribute.computed &&
+          attribute.value.type === 'Literal'
+        ) {
+          result[getName(attribute.key as Identifier | Literal)] = String(attribute.value.value)
+        }
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Get the module specifier of an import expression source, if it’s known at transform time.
+ *
+ * @param source
+ *   The source expression of the import expression.
+ * @returns
+ *   The module specifier, or `undefined` if the source isn’t a string literal or a template literal
+ *   without expressions.
+ */
+function getSpecifier(source: Expression | SpreadElement): string | undefined {
+  if (source.type === 'Literal' && typeof source.value === 'string') {
+    return source.value
+  }
+
+  if (source.type === 'TemplateLiteral' && !source.expressions.length) {
+    return source.quasis[0].value.cooked!
+  }
+}
+
+/**
+ * Create a function which checks if a module specifier is external.
+ *
+ * @param externals
+ *   The externals option.
+ * @returns
+ *   A function which returns whether a specifier is external.
+ */
+function createExternalsMatcher(
+  externals: moduleToFunction.Options['externals']
+): (specifier: string) => boolean {
+  if (typeof externals === 'function') {
+    return externals
+  }
+
+  if (externals instanceof RegExp) {
+    return (specifier) => externals.test(specifier)
+  }
+
+  const set = new Set(externals)
+  return (specifier) => set.has(specifier)
+}
+
+/**
+ * Resolve the source of an import or re-export.
+ *
+ * @param source
+ *   The source node to resolve.
+ * @param specifier
+ *   The module specifier represented by the source node.
+ * @param attributes
+ *   The import attributes of the import.
+ * @param resolve
+ *   The function to resolve the specifier with.
+ * @returns
+ *   A new literal which holds the resolved specifier.
+ */
+function resolveSource(
+  source: Node,
+  specifier: string,
+  attributes: Record<string, string>,
+  resolve: NonNullable<moduleToFunction.Options['resolve']>
+): Literal {
+  return copyPosition({ type: 'Literal', value: resolve(specifier, attributes) }, source)
+}
+
+/**
+ * Format the position of a node for use in an error message.
+ *
+ * @param node
+ *   The node whose position to format.
+ * @returns
+ *   The position formatted as ` (line:column)`, or an empty string if the node has no location.
+ */
+function formatPosition(node: Positioned): string {
+  if (!node.loc) {
+    return ''
+  }
+
+  return ` (${node.loc.start.line}:${node.loc.start.column + 1})`
+}
+
+/**
+ * Check if a node is a function.
+ *
+ * @param node
+ *   The node to check.
+ * @returns
+ *   Whether the node is a function.
+ */
+function isFunction(node: Node): node is Function {
+  return (
+    node.type === 'ArrowFunctionExpression' ||
+    node.type === 'FunctionDeclaration' ||
+    node.type === 'FunctionExpression'
+  )
+}
+
+/**
+ * Check if two identifiers can be used for a shorthand property.
+ *
+ * @param a
+ *   The first potential identifier node
+ * @param b
+ *   The other potential identifier node
+ * @returns
+ *   Whether `a` and `b` are equal identifier nodes.
+ */
+function isShorthand(a: Identifier | Literal, b: Expression): boolean {
+  return a.type === 'Identifier' && b.type === 'Identifier' && a.name === b.name
+}
+
+/**
+ * Find the identifiers of all `var` declarations in a node, excluding those in nested functions.
+ *
+ * @param node
+ *   The node in which to find `var` declarations.
+ * @returns
+ *   The identifiers declared using `var`.
+ */
+function findVarIdentifiers(node: Node): Identifier[] {
+  const result: Identifier[] = []
+
+  walk(node, {
+    enter(child) {
+      if (child !== node && isFunction(child)) {
+        this.skip()
+      } else if (child.type === 'VariableDeclaration' && child.kind === 'var') {
+        result.push(...findDeclarationIdentifiers(child))
+      }
+    }
+  })
+
+  return result
+}
+
+/**
+ * Find the identifiers of all module scope bindings in a program.
+ *
+ * @param ast
+ *   The program in which to find module scope bindings.
+ * @returns
+ *   The identifiers of imports, top-level declarations, and `var` declarations outside functions.
+ */
+function findModuleScopeIdentifiers(ast: Program): Identifier[] {
+  const result = findVarIdentifiers(ast)
+
+  for (const statement of ast.body) {
+    if (statement.type === 'ImportDeclaration') {
+      result.push(...statement.specifiers.map((specifier) => specifier.local))
+      continue
+    }
+
+    const declaration =
+      statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration'
+        ? statement.declaration
+        : statement
+    if (
+      (declaration?.type === 'VariableDeclaration' && declaration.kind !== 'var') ||
+      ((declaration?.type === 'FunctionDeclaration' || declaration?.type === 'ClassDeclaration') &&
+        declaration.id)
+    ) {
+      result.push(...findDeclarationIdentifiers(declaration as Declaration))
+    }
+  }
+
+  return result
+}
+
+/**
+ * Add the names of the lexical declarations in a list of statements to a set.
+ *
+ * `var` declarations are ignored, because they belong to the enclosing function.
+ *
+ * @param statements
+ *   The statements to check for lexical declarations.
+ * @param names
+ *   The set to add the names to.
+ */
+function addLexicalNames(statements: Node[], names: Set<string>): undefined {
+  for (const statement of statements) {
+    if (
+      (statement.type === 'VariableDeclaration' && statement.kind !== 'var') ||
+      statement.type === 'FunctionDeclaration' ||
+      statement.type === 'ClassDeclaration'
+    ) {
+      for (const identifier of findDeclarationIdentifiers(statement)) {
+        names.add(identifier.name)
+      }
+    }
+  }
+}
+
+/**
+ * Get the names declared in the scope a node creates.
+ *
+ * @param node
+ *   The node to get the declared names of.
+ * @returns
+ *   The names declared in the scope of the node, or `undefined` if the node doesn’t create a scope.
+ */
+function getScopeNames(node: Node): Set<string> | undefined {
+  const names = new Set<string>()
+
+  switch (node.type) {
+    case 'ArrowFunctionExpression':
+    case 'FunctionDeclaration':
+    case 'FunctionExpression':
+      // The name of a function declaration belongs to the enclosing scope.
+      if (node.type === 'FunctionExpression' && node.id) {
+        names.add(node.id.name)
+      }
+
+      for (const parameter of node.params) {
+        for (const identifier of findBindingIdentifiers(parameter)) {
+          names.add(identifier.name)
+        }
+      }
+
+      for (const identifier of findVarIdentifiers(node)) {
+        names.add(identifier.name)
+      }
+
+      break
+
+    case 'ClassExpression':
+      if (node.id) {
+        names.add(node.id.name)
+      }
+
+      break
+
+    case 'BlockStatement':
+    case 'StaticBlock':
+      addLexicalNames(node.body, names)
+      break
+
+    case 'SwitchStatement':
+      for (const switchCase of node.cases) {
+        addLexicalNames(switchCase.consequent, names)
+      }
+
+      break
+
+    case 'ForStatement':
+      if (node.init) {
+        addLexicalNames([node.init], names)
+      }
+
+      break
+
+    case 'ForInStatement':
+    case 'ForOfStatement':
+      addLexicalNames([node.left], names)
+      break
+
+    case 'CatchClause':
+      if (node.param) {
+        for (const identifier of findBindingIdentifiers(node.param)) {
+          names.add(identifier.name)
+        }
+      }
+
+      break
+
+    default:
+      return
+  }
+
+  return names
+}
+
+/**
+ * Check if an identifier refers to a binding.
+ *
+ * Babel node types which hold property names are supported as well, so Babel ASTs can be processed
+ * without converting them to ESTree first.
+ *
+ * @param key
+ *   The key of the parent node which holds the identifier.
+ * @param parent
+ *   The parent node of the identifier.
+ * @returns
+ *   Whether the identifier refers to a binding, as opposed to being a property name or label.
+ */
+function isReference(key: null | PropertyKey | undefined, parent: Node | null): boolean {
+  switch (parent?.type as string | undefined) {
+    case 'MemberExpression':
+    case 'OptionalMemberExpression':
+      return key === 'object' || (parent as MemberExpression).computed
+
+    case 'Property':
+    case 'MethodDefinition':
+    case 'PropertyDefinition':
+    case 'ObjectProperty':
+    case 'ClassProperty':
+    case 'ClassPrivateProperty':
+    case 'ClassAccessorProperty':
+      return key !== 'key' || (parent as Property).computed
+
+    case 'ExportSpecifier':
+      return key === 'local'
+
+    case 'LabeledStatement':
+    case 'BreakStatement':
+    case 'ContinueStatement':
+    case 'MetaProperty':
+    case 'PrivateName':
+      return false
+
+    default:
+      return true
+  }
+}
+
+/**
+ * Find the names of module scope bindings which are referenced in a program.
+ *
+ * Identifiers which are shadowed by a nested scope aren’t references to module scope bindings.
+ * JSX element names which start with an uppercase letter and the objects of JSX member
+ * expressions are references as well.
+ *
+ * @param ast
+ *   The program to search.
+ * @returns
+ *   The referenced names, or `undefined` if the program uses direct `eval()`, so references
+ *   can’t be determined.
+ */
+function findModuleReferences(ast: Program): Set<string> | undefined {
+  const references = new Set<string>()
+  const scopes: Scope[] = []
+  let dynamic = false
+
+  /**
+   * Add a reference to a name if it refers to a module scope binding.
+   *
+   * @param name
+   *   The referenced name.
+   */
+  function addReference(name: string): undefined {
+    if (!scopes.some((scope) => scope.names.has(name))) {
+      references.add(name)
+    }
+  }
+
+  walk(ast, {
+    enter(node, parent, key) {
+      const { type } = node as BaseNode
+      if (type.startsWith('TS') && !typeScriptValueTypes.has(type)) {
+        // Type annotations and type declarations don’t reference any runtime values.
+        this.skip()
+        return
+      }
+
+      const names = getScopeNames(node)
+      if (names) {
+        scopes.push({ node, names })
+      }
+
+      switch (node.type as string) {
+        // Module declarations only refer to other modules.
+        case 'ImportDeclaration':
+        case 'ExportAllDeclaration':
+          this.skip()
+          break
+
+        case 'ExportNamedDeclaration':
+          if ((node as ExportNamedDeclaration).source) {
+            this.skip()
+          }
+
+          break
+
+        case 'Identifier':
+          if (isReference(key, parent)) {
+            addReference((node as Identifier).name)
+          }
+
+          break
+
+        case 'JSXIdentifier': {
+          const { name } = node as BaseNode as Identifier
+          const parentType = (parent as BaseNode).type
+          if (
+            (key === 'object' && parentType === 'JSXMemberExpression') ||
+            (key === 'name' && parentType !== 'JSXAttribute' && /^[^a-z]/.test(name))
+          ) {
+            addReference(name)
+          }
+
+          break
+        }
+
+        case 'CallExpression': {
+          const { callee } = node as CallExpression
+          if (callee.type === 'Identifier' && callee.name === 'eval') {
+            dynamic = true
+          }
+
+          break
+        }
+
+        default:
+      }
+    },
+
+    leave(node) {
+      if (scopes.at(-1)?.node === node) {
+        scopes.pop()
+      }
+    }
+  })
+
+  return dynamic ? undefined : references
+}
+
+/**
+ * Check if a node creates a new binding for `this` and `arguments`.
+ *
+ * @param node
+ *   The node to check.
+ * @param key
+ *   The key of the parent node which holds the node.
+ * @param parent
+ *   The parent node of the node.
+ * @returns
+ *   Whether `this` refers to something other than the module’s `this` inside the node.
+ */
+function isThisBoundary(
+  node: Node,
+  key: null | PropertyKey | undefined,
+  parent: Node | null
+): boolean {
+  return (
+    node.type === 'FunctionDeclaration' ||
+    node.type === 'FunctionExpression' ||
+    node.type === 'StaticBlock' ||
+    (key === 'value' &&
+      (parent?.type === 'PropertyDefinition' ||
+        parent?.type === ('ClassProperty' as string) ||
+        parent?.type === ('ClassPrivateProperty' as string) ||
+        parent?.type === ('ClassAccessorProperty' as string)))
+  )
+}
+
+/**
+ * Rewrite references to global variables into lookups on a scope object.
+ *
+ * Top-level `this` is replaced with `undefined`, and top-level `arguments` is always looked up on
+ * the scope object, because these would otherwise refer to the generated function.
+ *
+ * @param ast
+ *   The program to rewrite.
+ * @param globalsName
+ *   The name of the scope object.
+ * @param allowGlobals
+ *   Global names which are kept as-is.
+ * @param denyGlobals
+ *   If specified, only these global names are looked up on the scope object.
+ */
+function scopeGlobals(
+  ast: Program,
+  globalsName: string,
+  allowGlobals: string[] = [],
+  denyGlobals?: string[]
+): undefined {
+  const moduleIdentifiers = findModuleScopeIdentifiers(ast)
+  const moduleNames = new Set(moduleIdentifiers.map((identifier) => identifier.name))
+  const scopes: Scope[] = []
+  let functionDepth = 0
+
+  // A module scope binding would redeclare the scope object, or shadow it everywhere.
+  const collision = moduleIdentifiers.find((identifier) => identifier.name === globalsName)
+  if (collision) {
+    throw new Error(
+      `globalsName \`${globalsName}\` collides with a module scope binding${formatPosition(collision)}`
+    )
+  }
+
+  /**
+   * Check if a name should be looked up on the scope object.
+   *
+   * @param name
+   *   The referenced name.
+   * @returns
+   *   Whether the name refers to a global variable which should be looked up on the scope object.
+   */
+  function isScoped(name: string): boolean {
+    if (moduleNames.has(name) || scopes.some((scope) => scope.names.has(name))) {
+      return false
+    }
+
+    if (name === 'arguments') {
+      return functionDepth === 0
+    }
+
+    return !allowGlobals.includes(name) && (!denyGlobals || denyGlobals.includes(name))
+  }
+
+  /**
+   * Throw if the scope object is shadowed where a global variable is looked up on it.
+   *
+   * @param node
+   *   The reference to the global variable.
+   */
+  function assertNotShadowed(node: Node): undefined {
+    if (scopes.some((scope) => scope.names.has(globalsName))) {
+      throw new Error(
+        `globalsName \`${globalsName}\` is shadowed where a global is referenced${formatPosition(node)}`
+      )
+    }
+  }
+
+  walk(ast, {
+    enter(node, parent, key) {
+      const { type } = node as BaseNode
+      if (type.startsWith('TS') && !typeScriptValueTypes.has(type)) {
+        // Type annotations and type declarations don’t reference any runtime values.
+        this.skip()
+        return
+      }
+
+      if (isThisBoundary(node, key, parent)) {
+        functionDepth += 1
+      }
+
+      const names = getScopeNames(node)
+      if (names) {
+        scopes.push({ node, names })
+      }
+
+      switch (node.type as string) {
+        // Module declarations only refer to other modules.
+        case 'ImportDeclaration':
+        case 'ExportAllDeclaration':
+          this.skip()
+          break
+
+        case 'ExportNamedDeclaration':
+          if ((node as ExportNamedDeclaration).source) {
+            this.skip()
+          }
+
+          break
+
+        default:
+      }
+    },
+
+    // Nodes are replaced when leaving them, so the replacements aren’t visited.
+    leave(node, parent, key) {
+      if (scopes.at(-1)?.node === node) {
+        scopes.pop()
+      }
+
+      switch (node.type as string) {
+        case 'Identifier': {
+          const { name } = node as Identifier
+          if (isReference(key, parent) && parent?.type !== 'ExportSpecifier' && isScoped(name)) {
+            assertNotShadowed(node)
+            this.replace(
+              copyPosition(
+                {
+                  type: 'MemberExpression',
+                  computed: false,
+                  optional: false,
+                  object: { type: 'Identifier', name: globalsName },
+                  property: copyPosition({ type: 'Identifier', name }, node)
+                },
+                node
+              )
+            )
+          }
+
+          break
+        }
+
+        case 'JSXIdentifier': {
+          const { name } = node as BaseNode as Identifier
+          const parentType = (parent as BaseNode).type
+          if (
+            ((key === 'object' && parentType === 'JSXMemberExpression') ||
+              (key === 'name' && parentType !== 'JSXAttribute' && /^[^a-z]/.test(name))) &&
+            isScoped(name)
+          ) {
+            assertNotShadowed(node)
+            this.replace(
+              copyPosition(
+                {
+                  type: 'JSXMemberExpression',
+                  object: { type: 'JSXIdentifier', name: globalsName },
+                  property: copyPosition({ type: 'JSXIdentifier', name }, node)
+                } as BaseNode as Node,
+                node
+              )
+            )
+          }
+
+          break
+        }
+
+        case 'ThisExpression':
+          if (!functionDepth) {
+            this.replace(
+              copyPosition(
+                {
+                  type: 'UnaryExpression',
+                  operator: 'void',
+                  prefix: true,
+                  argument: { type: 'Literal', value: 0 }
+                },
+                node
+              )
+            )
+          }
+
+          break
+
+        case 'Property':
+        case 'ObjectProperty': {
+          // A shorthand property can’t hold a member expression.
+          const property = node as Property
+          const value =
+            property.value.type === 'AssignmentPattern' ? property.value.left : property.value
+          if (property.shorthand && value.type !== 'Identifier') {
+            property.shorthand = false
+          }
+
+          break
+        }
+
+        default:
+      }
+
+      if (isThisBoundary(node, key, parent)) {
+        functionDepth -= 1
+      }
+    }
+  })
+}
+
+/**
+ * Convert an identifier or a member expression into a JSX element name.
+ *
+ * @param node
+ *   The identifier or member expression to convert.
+ * @returns
+ *   The equivalent JSX identifier or JSX member expression.
+ */
+function toJSXName(node: Identifier | MemberExpression): Node {
+  if (node.type === 'Identifier') {
+    return { type: 'JSXIdentifier', name: node.name } as BaseNode as Node
+  }
+
+  return {
+    type: 'JSXMemberExpression',
+    object: toJSXName(node.object as Identifier | MemberExpression),
+    property: toJSXName(node.property as Identifier)
+  } as BaseNode as Node
+}
+
+/**
+ * Replace references to module scope bindings.
+ *
+ * Identifiers in nested scopes which declare the same name aren’t replaced. If an identifier which
+ * is called is replaced with a member expression, the call gets an undefined `this` value.
+ *
+ * @param ast
+ *   The program in which to replace references.
+ * @param replace
+ *   A function which returns the expression to replace a reference with, or `undefined` to keep
+ *   it. The local names of export specifiers may only be replaced with identifiers.
+ */
+function replaceModuleReferences(
+  ast: Program,
+  replace: (identifier: Identifier) => Identifier | MemberExpression | undefined
+): undefined {
+  const scopes: Scope[] = []
+
+  walk(ast, {
+    enter(node) {
+      const { type } = node as BaseNode
+      if (type.startsWith('TS') && !typeScriptValueTypes.has(type)) {
+        this.skip()
+        return
+      }
+
+      const names = getScopeNames(node)
+      if (names) {
+        scopes.push({ node, names })
+      }
+
+      switch (type) {
+        // Module declarations only refer to other modules.
+        case 'ImportDeclaration':
+        case 'ExportAllDeclaration':
+          this.skip()
+          break
+
+        case 'ExportNamedDeclaration':
+          if ((node as ExportNamedDeclaration).source) {
+            this.skip()
+          }
+
+          break
+
+        default:
+      }
+    },
+
+    // Nodes are replaced when leaving them, so the replacements aren’t visited.
+    leave(node, parent, key) {
+      if (scopes.at(-1)?.node === node) {
+        scopes.pop()
+      }
+
+      switch (node.type as string) {
+        case 'Identifier': {
+          const { name } = node as Identifier
+          if (!isReference(key, parent) || scopes.some((scope) => scope.names.has(name))) {
+            break
+          }
+
+          const replacement = replace(node as Identifier)
+          if (!replacement) {
+            break
+          }
+
+          const isCallee =
+            (key === 'callee' && parent?.type === 'CallExpression') ||
+            (key === 'tag' && parent?.type === 'TaggedTemplateExpression')
+          this.replace(
+            copyPosition(
+              isCallee && replacement.type === 'MemberExpression'
+                ? {
+                    type: 'SequenceExpression',
+                    expressions: [{ type: 'Literal', value: 0 }, replacement]
+                  }
+                : replacement,
+              node
+            )
+          )
+          break
+        }
+
+        case 'JSXIdentifier': {
+          const { name } = node as BaseNode as Identifier
+          const parentType = (parent as BaseNode).type
+          if (
+            !(
+              (key === 'object' && parentType === 'JSXMemberExpression') ||
+              (key === 'name' && parentType !== 'JSXAttribute' && /^[^a-z]/.test(name))
+            ) ||
+            scopes.some((scope) => scope.names.has(name))
+          ) {
+            break
+          }
+
+          const replacement = replace({ type: 'Identifier', name })
+          if (replacement) {
+            this.replace(copyPosition(toJSXName(replacement), node))
+          }
+
+          break
+        }
+
+        case 'Property':
+        case 'ObjectProperty': {
+          // A shorthand property can only hold an identifier with the same name as its key.
+          const property = node as Property
+          const value =
+            property.value.type === 'AssignmentPattern' ? property.value.left : property.value
+          if (
+            property.shorthand &&
+            (value.type !== 'Identifier' || value.name !== (property.key as Identifier).name)
+          ) {
+            property.shorthand = false
+          }
+
+          break
+        }
+
+        default:
+      }
+    }
+  })
+}
+
+/**
+ * Convert named and default imports into namespace imports, so imported bindings are read when
+ * they’re used.
+ *
+ * References to imported bindings become property lookups on the module namespace object. Local
+ * exports of imported bindings become re-exports. Import declarations with a phase are kept as-is.
+ *
+ * @param ast
+ *   The program to convert.
+ * @param prefix
+ *   The prefix for generated namespace names.
+ */
+function convertLiveImports(ast: Program, prefix: string | undefined): undefined {
+  const names = collectIdentifierNames(ast)
+  const imports = new Map<string, LiveImport>()
+
+  for (const statement of ast.body) {
+    if (statement.type !== 'ImportDeclaration' || (statement as ImportPhase).phase) {
+      continue
+    }
+
+    const specifiers = statement.specifiers.filter(
+      (specifier) => specifier.type !== 'ImportNamespaceSpecifier'
+    )
+    if (!specifiers.length) {
+      continue
+    }
+
+    const namespaceSpecifier =
+      (statement.specifiers.find((specifier) => specifier.type === 'ImportNamespaceSpecifier') as
+        | ImportNamespaceSpecifier
+        | undefined) ??
+      copyPosition(
+        {
+          type: 'ImportNamespaceSpecifier',
+          local: {
+            type: 'Identifier',
+            name: uniqueName(names, prefix == null ? '_imported' : `${prefix}imported`)
+          }
+        },
+        statement
+      )
+
+    for (const specifier of specifiers) {
+      imports.set(specifier.local.name, {
+        declaration: statement,
+        imported:
+          specifier.type === 'ImportSpecifier'
+            ? specifier.imported
+            : { type: 'Identifier', name: 'default' },
+        namespace: namespaceSpecifier.local.name
+      })
+    }
+
+    statement.specifiers = [namespaceSpecifier]
+  }
+
+  const body: Program['body'] = []
+  for (const statement of ast.body) {
+    if (statement.type !== 'ExportNamedDeclaration' || statement.source) {
+      body.push(statement)
+      continue
+    }
+
+    const specifiers: ExportSpecifier[] = []
+    const reexports = new Map<ImportDeclaration, ExportNamedDeclaration>()
+    for (const specifier of statement.specifiers) {
+      const liveImport = imports.get(getName(specifier.local))
+      if (!liveImport) {
+        specifiers.push(specifier)
+        continue
+      }
+
+      const { declaration, imported } = liveImport
+      let reexport = reexports.get(declaration)
+      if (!reexport) {
+        reexport = copyPosition(
+          {
+            type: 'ExportNamedDeclaration',
+            attributes: declaration.attributes,
+            source: declaration.source,
+            specifiers: []
+          },
+          statement
+        )
+        reexports.set(declaration, reexport)
+        body.push(reexport)
+      }
+
+      reexport.specifiers.push(
+        copyPosition(
+          { type: 'ExportSpecifier', local: imported, exported: specifier.exported },
+          specifier
+        )
+      )
+    }
+
+    if (statement.declaration || specifiers.length || !statement.specifiers.length) {
+      statement.specifiers = specifiers
+      body.push(statement)
+    }
+  }
+
+  ast.body = body
+
+  replaceModuleReferences(ast, (identifier) => {
+    const liveImport = imports.get(identifier.name)
+    if (!liveImport) {
+      return
+    }
+
+    const { imported, namespace } = liveImport
+    return {
+      type: 'MemberExpression',
+      computed: imported.type === 'Literal',
+      optional: false,
+      object: { type: 'Identifier', name: namespace },
+      property:
+        imported.type === 'Literal'
+          ? { type: 'Literal', value: getName(imported) }
+          : { type: 'Identifier', name: imported.name }
+    }
+  })
+}
+
+/**
+ * Rename module scope bindings which shadow global objects that generated code refers to.
+ *
+ * Exported bindings keep their export names, but renamed functions and classes get a different
+ * `name` property.
+ *
+ * @param ast
+ *   The program in which to rename bindings.
+ * @param prefix
+ *   The prefix for the new names.
+ * @returns
+ *   A map of the new names to the original names.
+ */
+function renameShadowedGlobals(ast: Program, prefix: string | undefined): Map<string, string> {
+  const renames = new Map<string, string>()
+  const originalNames = new Map<string, string>()
+  let names: Set<string> | undefined
+  for (const { name } of findModuleScopeIdentifiers(ast)) {
+    if (generatedGlobals.has(name) && !renames.has(name)) {
+      // Walking the whole program is only worth it if something is renamed.
+      names ??= collectIdentifierNames(ast)
+      const newName = uniqueName(names, prefix == null ? `_${name}` : `${prefix}${name}`)
+      renames.set(name, newName)
+      originalNames.set(newName, name)
+    }
+  }
+
+  if (!renames.size) {
+    return originalNames
+  }
+
+  /**
+   * Create an identifier with the new name of a binding.
+   *
+   * @param identifier
+   *   The identifier of the binding.
+   * @returns
+   *   The renamed identifier, or `undefined` if the binding isn’t renamed.
+   */
+  function rename(identifier: Identifier): Identifier | undefined {
+    const name = renames.get(identifier.name)
+    if (name) {
+      return copyPosition({ type: 'Identifier', name }, identifier)
+    }
+  }
+
+  const body: Program['body'] = []
+  for (const statement of ast.body) {
+    if (statement.type === 'ImportDeclaration') {
+      for (const specifier of statement.specifiers) {
+        specifier.local = rename(specifier.local) ?? specifier.local
+      }
+    }
+
+    const declaration =
+      statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration'
+        ? statement.declaration
+        : statement
+    if (
+      (declaration?.type === 'FunctionDeclaration' || declaration?.type === 'ClassDeclaration') &&
+      declaration.id
+    ) {
+      declaration.id = rename(declaration.id) ?? declaration.id
+    }
+
+    // An exported declaration is split, so its bindings can be exported under their original names.
+    if (
+      statement.type !== 'ExportNamedDeclaration' ||
+      !statement.declaration ||
+      ![...findDeclarationIdentifiers(statement.declaration)].some(
+        ({ name }) => renames.has(name) || originalNames.has(name)
+      )
+    ) {
+      body.push(statement)
+      continue
+    }
+
+    body.push(statement.declaration, {
+      ...statement,
+      declaration: null,
+      specifiers: Array.from(findDeclarationIdentifiers(statement.declaration), (identifier) => {
+        const name = originalNames.get(identifier.name) ?? identifier.name
+        return copyPosition(
+          {
+            type: 'ExportSpecifier',
+            local: copyPosition({ type: 'Identifier', name: identifier.name }, identifier),
+            exported: copyPosition({ type: 'Identifier', name }, identifier)
+          },
+          identifier
+        )
+      })
+    })
+  }
+
+  ast.body = body
+  replaceModuleReferences(ast, rename)
+  return originalNames
+}
+
+/**
+ * Validate a module for problems which the transform can’t represent correctly.
+ *
+ * @param ast
+ *   The module to validate.
+ * @returns
+ *   All diagnostics found in the module.
+ */
+function validateModule(ast: Program): moduleToFunction.Diagnostic[] {
+  const diagnostics: moduleToFunction.Diagnostic[] = []
+  const importNames = new Set<string>()
+  const declarationNames = new Set<string>()
+  const exportNames = new Set<string>()
+  const localExports: Identifier[] = []
+  const scopes: Scope[] = []
+
+  /**
+   * Report a diagnostic.
+   *
+   * @param code
+   *   The code of the diagnostic.
+   * @param message
+   *   The message of the diagnostic.
+   * @param node
+   *   The node which caused the diagnostic.
+   */
+  function report(
+    code: moduleToFunction.Diagnostic['code'],
+    message: string,
+    node: Node
+  ): undefined {
+    diagnostics.push(copyPosition({ code, message }, node))
+  }
+
+  /**
+   * Register a module scope binding.
+   *
+   * @param identifier
+   *   The identifier of the binding.
+   * @param isImport
+   *   Whether the binding is created by an import declaration.
+   */
+  function declare(identifier: Identifier, isImport: boolean): undefined {
+    const { name } = identifier
+    if (importNames.has(name) || (isImport && declarationNames.has(name))) {
+      report('duplicate-import', `Identifier '${name}' has already been declared`, identifier)
+    }
+
+    if (isImport) {
+      importNames.add(name)
+    } else {
+      declarationNames.add(name)
+    }
+  }
+
+  /**
+   * Register an export name.
+   *
+   * @param name
+   *   The exported name.
+   * @param node
+   *   The node which exports the name.
+   */
+  function addExport(name: string, node: Node): undefined {
+    if (exportNames.has(name)) {
+      report('duplicate-export', `Duplicate export '${name}'`, node)
+    }
+
+    exportNames.add(name)
+  }
+
+  /**
+   * Report assignments to imported bindings.
+   *
+   * @param pattern
+   *   The assignment target.
+   */
+  function checkAssignment(pattern: Pattern): undefined {
+    for (const identifier of findBindingIdentifiers(pattern)) {
+      const { name } = identifier
+      if (importNames.has(name) && !scopes.some((scope) => scope.names.has(name))) {
+        report('import-assignment', `Assignment to imported binding '${name}'`, identifier)
+      }
+    }
+  }
+
+  for (const statement of ast.body) {
+    if (statement.type === 'ImportDeclaration') {
+      for (const specifier of statement.specifiers) {
+        declare(specifier.local, true)
+      }
+    } else if (statement.type === 'ExportAllDeclaration') {
+      if (statement.exported) {
+        addExport(getName(statement.exported), statement.exported)
+      }
+    } else if (statement.type === 'ExportDefaultDeclaration') {
+      addExport('default', statement)
+      if (
+        (statement.declaration.type === 'FunctionDeclaration' ||
+          statement.declaration.type === 'ClassDeclaration') &&
+        statement.declaration.id
+      ) {
+        declare(statement.declaration.id, false)
+      }
+    } else if (statement.type === 'ExportNamedDeclaration') {
+      if (statement.declaration) {
+        const isVar =
+          statement.declaration.type === 'VariableDeclaration' &&
+          statement.declaration.kind === 'var'
+        for (const identifier of findDeclarationIdentifiers(statement.declaration)) {
+          addExport(identifier.name, identifier)
+          // Variables declared using `var` are declared below.
+          if (!isVar) {
+            declare(identifier, false)
+          }
+        }
+      }
+
+      for (const specifier of statement.specifiers) {
+        addExport(getName(specifier.exported), specifier.exported)
+        if (!statement.source) {
+          localExports.push(specifier.local as Identifier)
+        }
+      }
+    } else if (
+      (statement.type === 'VariableDeclaration' && statement.kind !== 'var') ||
+      statement.type === 'FunctionDeclaration' ||
+      statement.type === 'ClassDeclaration'
+    ) {
+      for (const identifier of findDeclarationIdentifiers(statement)) {
+        declare(identifier, false)
+      }
+    }
+  }
+
+  // This includes variables declared using `var` in nested blocks.
+  for (const identifier of findVarIdentifiers(ast)) {
+    declare(identifier, false)
+  }
+
+  for (const identifier of localExports) {
+    if (!importNames.has(identifier.name) && !declarationNames.has(identifier.name)) {
+      report('undeclared-export', `Export '${identifier.name}' is not defined`, identifier)
+    }
+  }
+
+  walk(ast, {
+    enter(node) {
+      const names = getScopeNames(node)
+      if (names) {
+        scopes.push({ node, names })
+      }
+
+      if (node.type === 'AssignmentExpression') {
+        checkAssignment(node.left)
+      } else if (node.type === 'UpdateExpression') {
+        checkAssignment(node.argument as Pattern)
+      } else if (
+        (node.type === 'ForInStatement' || node.type === 'ForOfStatement') &&
+        node.left.type !== 'VariableDeclaration'
+      ) {
+        checkAssignment(node.left)
+      }
+    },
+
+    leave(node) {
+      if (scopes.at(-1)?.node === node) {
+        scopes.pop()
+      }
+    }
+  })
+
+  return diagnostics
+}
+
+/**
+ * Create a property that can be exported.
+ *
+ * @param key
+ *   The key to export as.
+ * @param value
+ *   The value expression to export.
+ * @param liveBindings
+ *   If true, create a getter which returns the value instead of a plain property.
+ * @returns
+ *   A property for the returned exports.
+ */
+function createProperty(
+  key: Identifier | Literal,
+  value: Expression,
+  liveBindings?: boolean
+): Property {
+  let computed = false
+  if (key.type === 'Literal') {
+    if (key.value === '__proto__') {
+      computed = true
+    }
+  } else if (key.name === '__proto__') {
+    computed = true
+    key = { type: 'Literal', value: '__proto__' }
+  }
+
+  if (liveBindings) {
+    return {
+      type: 'Property',
+      computed,
+      method: false,
+      shorthand: false,
+      kind: 'get',
+      key,
+      value: {
+        type: 'FunctionExpression',
+        params: [],
+        body: {
+          type: 'BlockStatement',
+          body: [{ type: 'ReturnStatement', argument: value }]
+        }
+      }
+    }
+  }
+
+  return {
+    type: 'Property',
+    computed,
+    method: false,
+    shorthand: !computed && isShorthand(key, value),
+    kind: 'init',
+    key,
+    value
+  }
+}
+
+/**
+ * Create a property which exports a local binding.
+ *
+ * @param identifier
+ *   The identifier of the local binding.
+ * @param liveBindings
+ *   If true, create a getter instead of a plain property.
+ * @param key
+ *   The name to export the binding as. By default this is the name of the binding.
+ * @returns
+ *   A property for the returned exports.
+ */
+function createIdentifierProperty(
+  identifier: Identifier,
+  liveBindings: boolean,
+  key = identifier.name
+): Property {
+  const { name } = identifier
+
+  return copyPosition(
+    createProperty(
+      copyPosition({ type: 'Identifier', name: key }, identifier),
+      copyPosition({ type: 'Identifier', name }, identifier),
+      liveBindings
+    ),
+    identifier
+  )
+}
+
+/**
+ * Create an expression which references a variable or a property path.
+ *
+ * @param path
+ *   A variable name, optionally followed by dot separated property names, e.g. `module.exports`.
+ * @returns
+ *   An identifier or member expression.
+ */
+function createReference(path: string): Identifier | MemberExpression {
+  const [name, ...properties] = path.split('.')
+  let result: Identifier | MemberExpression = { type: 'Identifier', name }
+
+  for (const property of properties) {
+    result = {
+      type: 'MemberExpression',
+      computed: false,
+      optional: false,
+      object: result,
+      property: { type: 'Identifier', name: property }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Convert an export property into a property descriptor for `Object.defineProperties()`.
+ *
+ * @param property
+ *   The export property to convert.
+ * @returns
+ *   A property whose value is an enumerable getter descriptor.
+ */
+function createExportDescriptor(property: Property): Property {
+  return {
+    ...property,
+    kind: 'init',
+    method: false,
+    shorthand: false,
+    value: {
+      type: 'ObjectExpression',
+      properties: [
+        {
+          type: 'Property',
+          computed: false,
+          method: false,
+          shorthand: false,
+          kind: 'init',
+          key: { type: 'Identifier', name: 'enumerable' },
+          value: { type: 'Literal', value: true }
+        },
+        {
+          type: 'Property',
+          computed: false,
+          method: false,
+          shorthand: false,
+          kind: 'init',
+          key: { type: 'Identifier', name: 'get' },
+          value: {
+            type: 'ArrowFunctionExpression',
+            expression: true,
+            params: [],
+            body: property.value as Expression
+          }
+        }
+      ]
+    }
+  }
+}
+
+/**
+ * Create an object expression which represents a module namespace object.
+ *
+ * @param properties
+ *   The export properties of the namespace.
+ * @returns
+ *   An object expression with a `null` prototype and a `Symbol.toStringTag` of `'Module'`.
+ */
+function createNamespaceObject(properties: (Property | SpreadElement)[]): ObjectExpression {
+  return {
+    type: 'ObjectExpression',
+    properties: [
+      {
+        type: 'Property',
+        computed: false,
+        method: false,
+        shorthand: false,
+        kind: 'init',
+        key: { type: 'Identifier', name: '__proto__' },
+        value: { type: 'Literal', value: null }
+      },
+      {
+        type: 'Property',
+        computed: true,
+        method: false,
+        shorthand: false,
+        kind: 'init',
+        key: createReference('Symbol.toStringTag'),
+        value: { type: 'Literal', value: 'Module' }
+      },
+      ...properties
+    ]
+  }
+}
+
+/**
+ * Create a member expression which accesses a property by the value of a variable.
+ *
+ * @param object
+ *   The name of the object variable.
+ * @param property
+ *   The name of the variable which holds the property name.
+ * @returns
+ *   A computed member expression.
+ */
+function createComputedMember(object: string, property: string): MemberExpression {
+  return {
+    type: 'MemberExpression',
+    computed: true,
+    optional: false,
+    object: { type: 'Identifier', name: object },
+    property: { type: 'Identifier', name: property }
+  }
+}
+
+/**
+ * Create a function declaration which defines star exports on an exports object.
+ *
+ * Star exports follow the semantics of ECMAScript module namespaces. Names which are exported by
+ * multiple star exports with different values are ambiguous, and are excluded. Names which are
+ * already defined on the exports object are explicit exports, which take precedence.
+ *
+ * The function has the signature `(exports, ...namespaces)`. If `namespace` is true, the function
+ * returns a frozen module namespace object whose keys are sorted. Otherwise it only defines the
+ * star exports on the exports object.
+ *
+ * @param name
+ *   The name of the function.
+ * @param namespace
+ *   Whether to return a module namespace object.
+ * @returns
+ *   The function declaration.
+ */
+function createStarExportFunction(name: string, namespace: boolean): FunctionDeclaration {
+  const body: Statement[] = [
+    {
+      type: 'VariableDeclaration',
+      kind: 'const',
+      declarations: [
+        {
+          type: 'VariableDeclarator',
+          id: { type: 'Identifier', name: 'stars' },
+          init: {
+            type: 'ObjectExpression',
+            properties: [
+              {
+                type: 'Property',
+                computed: false,
+                method: false,
+                shorthand: false,
+                kind: 'init',
+                key: { type: 'Identifier', name: '__proto__' },
+                value: { type: 'Literal', value: null }
+              }
+            ]
+          }
+        }
+      ]
+    },
+    // A name which is exported by multiple namespaces with different values is marked as ambiguous
+    // by assigning the `stars` object itself, which no namespace can export.
+    {
+      type: 'ForOfStatement',
+      await: false,
+      left: {
+        type: 'VariableDeclaration',
+        kind: 'const',
+        declarations: [
+          { type: 'VariableDeclarator', id: { type: 'Identifier', name: 'namespace' } }
+        ]
+      },
+      right: { type: 'Identifier', name: 'namespaces' },
+      body: {
+        type: 'ForInStatement',
+        left: {
+          type: 'VariableDeclaration',
+          kind: 'const',
+          declarations: [{ type: 'VariableDeclarator', id: { type: 'Identifier', name: 'name' } }]
+        },
+        right: { type: 'Identifier', name: 'namespace' },
+        body: {
+          type: 'ExpressionStatement',
+          expression: {
+            type: 'AssignmentExpression',
+            operator: '=',
+            left: createComputedMember('stars', 'name'),
+            right: {
+              type: 'ConditionalExpression',
+              test: {
+                type: 'LogicalExpression',
+                operator: '&&',
+                left: {
+                  type: 'BinaryExpression',
+                  operator: 'in',
+                  left: { type: 'Identifier', name: 'name' },
+                  right: { type: 'Identifier', name: 'stars' }
+                },
+                right: {
+                  type: 'UnaryExpression',
+                  operator: '!',
+                  prefix: true,
+                  argument: {
+                    type: 'CallExpression',
+                    optional: false,
+                    callee: createReference('Object.is'),
+                    arguments: [
+                      createComputedMember('stars', 'name'),
+                      createComputedMember('namespace', 'name')
+                    ]
+                  }
+                }
+              },
+              consequent: { type: 'Identifier', name: 'stars' },
+              alternate: createComputedMember('namespace', 'name')
+            }
+          }
+        }
+      }
+    },
+    {
+      type: 'ForInStatement',
+      left: {
+        type: 'VariableDeclaration',
+        kind: 'const',
+        declarations: [{ type: 'VariableDeclarator', id: { type: 'Identifier', name: 'name' } }]
+      },
+      right: { type: 'Identifier', name: 'stars' },
+      body: {
+        type: 'IfStatement',
+        test: {
+          type: 'LogicalExpression',
+          operator: '&&',
+          left: {
+            type: 'BinaryExpression',
+            operator: '!==',
+            left: createComputedMember('stars', 'name'),
+            right: { type: 'Identifier', name: 'stars' }
+          },
+          right: {
+            type: 'UnaryExpression',
+            operator: '!',
+            prefix: true,
+            argument: {
+              type: 'CallExpression',
+              optional: false,
+              callee: createReference('Object.hasOwn'),
+              arguments: [
+                { type: 'Identifier', name: 'exports' },
+                { type: 'Identifier', name: 'name' }
+              ]
+            }
+          }
+        },
+        consequent: {
+          type: 'ExpressionStatement',
+          expression: {
+            type: 'CallExpression',
+            optional: false,
+            callee: createReference('Object.defineProperty'),
+            arguments: [
+              { type: 'Identifier', name: 'exports' },
+              { type: 'Identifier', name: 'name' },
+              {
+                type: 'ObjectExpression',
+                properties: [
+                  {
+                    type: 'Property',
+                    computed: false,
+                    method: false,
+                    shorthand: false,
+                    kind: 'init',
+                    key: { type: 'Identifier', name: 'enumerable' },
+                    value: { type: 'Literal', value: true }
+                  },
+                  {
+                    type: 'Property',
+                    computed: false,
+                    method: false,
+                    shorthand: false,
+                    kind: 'init',
+                    key: { type: 'Identifier', name: 'value' },
+                    value: createComputedMember('stars', 'name')
+                  }
+                ]
+              }
+            ]
+          }
+        }
+      }
+    }
+  ]
+
+  if (namespace) {
+    body.push(
+      {
+        type: 'VariableDeclaration',
+        kind: 'const',
+        declarations: [
+          {
+            type: 'VariableDeclarator',
+            id: { type: 'Identifier', name: 'result' },
+            init: createNamespaceObject([])
+          }
+        ]
+      },
+      // Module namespace objects list their keys in code unit order.
+      {
+        type: 'ForOfStatement',
+        await: false,
+        left: {
+          type: 'VariableDeclaration',
+          kind: 'const',
+          declarations: [{ type: 'VariableDeclarator', id: { type: 'Identifier', name: 'name' } }]
+        },
+        right: {
+          type: 'CallExpression',
+          optional: false,
+          callee: {
+            type: 'MemberExpression',
+            computed: false,
+            optional: false,
+            object: {
+              type: 'CallExpression',
+              optional: false,
+              callee: createReference('Object.keys'),
+              arguments: [{ type: 'Identifier', name: 'exports' }]
+            },
+            property: { type: 'Identifier', name: 'sort' }
+          },
+          arguments: []
+        },
+        body: {
+          type: 'ExpressionStatement',
+          expression: {
+            type: 'CallExpression',
+            optional: false,
+            callee: createReference('Object.defineProperty'),
+            arguments: [
+              { type: 'Identifier', name: 'result' },
+              { type: 'Identifier', name: 'name' },
+              {
+                type: 'CallExpression',
+                optional: false,
+                callee: createReference('Object.getOwnPropertyDescriptor'),
+                arguments: [
+                  { type: 'Identifier', name: 'exports' },
+                  { type: 'Identifier', name: 'name' }
+                ]
+              }
+            ]
+          }
+        }
+      },
+      {
+        type: 'ReturnStatement',
+        argument: {
+          type: 'CallExpression',
+          optional: false,
+          callee: createReference('Object.freeze'),
+          arguments: [{ type: 'Identifier', name: 'result' }]
+        }
+      }
+    )
+  }
+
+  return {
+    type: 'FunctionDeclaration',
+    id: { type: 'Identifier', name },
+    params: [
+      { type: 'Identifier', name: 'exports' },
+      { type: 'RestElement', argument: { type: 'Identifier', name: 'namespaces' } }
+    ],
+    body: { type: 'BlockStatement', body }
+  }
+}
+
+/**
+ * Create a function declaration which creates a deferred module namespace object.
+ *
+ * The function has the signature `(load)`. It returns a proxy which calls `load` to evaluate the
+ * module the first time a string key of the namespace is accessed. Like in ECMAScript, accessing
+ * symbols or `then` doesn’t evaluate the module.
+ *
+ * @param name
+ *   The name of the function.
+ * @returns
+ *   The function declaration.
+ */
+function createDeferFunction(name: string): FunctionDeclaration {
+  const traps = [
+    'defineProperty',
+    'deleteProperty',
+    'get',
+    'getOwnPropertyDescriptor',
+    'has',
+    'ownKeys',
+    'set'
+  ]
+
+  return {
+    type: 'FunctionDeclaration',
+    id: { type: 'Identifier', name },
+    params: [{ type: 'Identifier', name: 'load' }],
+    body: {
+      type: 'BlockStatement',
+      body: [
+        {
+          type: 'VariableDeclaration',
+          kind: 'const',
+          declarations: [
+            {
+              type: 'VariableDeclarator',
+              id: { type: 'Identifier', name: 'target' },
+              init: {
+                type: 'ObjectExpression',
+                properties: [
+                  {
+                    type: 'Property',
+                    computed: false,
+                    method: false,
+                    shorthand: false,
+                    kind: 'init',
+                    key: { type: 'Identifier', name: '__proto__' },
+                    value: { type: 'Literal', value: null }
+                  },
+                  {
+                    type: 'Property',
+                    computed: true,
+                    method: false,
+                    shorthand: false,
+                    kind: 'init',
+                    key: createReference('Symbol.toStringTag'),
+                    value: { type: 'Literal', value: 'Deferred Module' }
+                  }
+                ]
+              }
+            },
+            {
+              type: 'VariableDeclarator',
+              id: { type: 'Identifier', name: 'handler' },
+              init: { type: 'ObjectExpression', properties: [] }
+            }
+          ]
+        },
+        {
+          type: 'VariableDeclaration',
+          kind: 'let',
+          declarations: [
+            { type: 'VariableDeclarator', id: { type: 'Identifier', name: 'namespace' } }
+          ]
+        },
+        // Every trap evaluates the module first, then operates on the target. Properties are only
+        // defined on the target once the module has been evaluated, so proxy invariants hold.
+        {
+          type: 'ForOfStatement',
+          await: false,
+          left: {
+            type: 'VariableDeclaration',
+            kind: 'const',
+            declarations: [{ type: 'VariableDeclarator', id: { type: 'Identifier', name: 'trap' } }]
+          },
+          right: {
+            type: 'ArrayExpression',
+            elements: traps.map((trap) => ({ type: 'Literal', value: trap }))
+          },
+          body: {
+            type: 'ExpressionStatement',
+            expression: {
+              type: 'AssignmentExpression',
+              operator: '=',
+              left: createComputedMember('handler', 'trap'),
+              right: {
+                type: 'ArrowFunctionExpression',
+                expression: false,
+                params: [
+                  { type: 'Identifier', name: 'object' },
+                  { type: 'Identifier', name: 'key' },
+                  { type: 'RestElement', argument: { type: 'Identifier', name: 'rest' } }
+                ],
+                body: {
+                  type: 'BlockStatement',
+                  body: [
+                    {
+                      type: 'IfStatement',
+                      test: {
+                        type: 'LogicalExpression',
+                        operator: '&&',
+                        left: {
+                          type: 'LogicalExpression',
+                          operator: '&&',
+                          left: {
+                            type: 'UnaryExpression',
+                            operator: '!',
+                            prefix: true,
+                            argument: { type: 'Identifier', name: 'namespace' }
+                          },
+                          right: {
+                            type: 'BinaryExpression',
+                            operator: '!==',
+                            left: {
+                              type: 'UnaryExpression',
+                              operator: 'typeof',
+                              prefix: true,
+                              argument: { type: 'Identifier', name: 'key' }
+                            },
+                            right: { type: 'Literal', value: 'symbol' }
+                          }
+                        },
+                        right: {
+                          type: 'BinaryExpression',
+                          operator: '!==',
+                          left: { type: 'Identifier', name: 'key' },
+                          right: { type: 'Literal', value: 'then' }
+                        }
+                      },
+                      consequent: {
+                        type: 'BlockStatement',
+                        body: [
+                          {
+                            type: 'ExpressionStatement',
+                            expression: {
+                              type: 'AssignmentExpression',
+                              operator: '=',
+                              left: { type: 'Identifier', name: 'namespace' },
+                              right: {
+                                type: 'CallExpression',
+                                optional: false,
+                                callee: { type: 'Identifier', name: 'load' },
+                                arguments: []
+                              }
+                            }
+                          },
+                          {
+                            type: 'ForOfStatement',
+                            await: false,
+                            left: {
+                              type: 'VariableDeclaration',
+                              kind: 'const',
+                              declarations: [
+                                {
+                                  type: 'VariableDeclarator',
+                                  id: { type: 'Identifier', name: 'name' }
+                                }
+                              ]
+                            },
+                            right: {
+                              type: 'CallExpression',
+                              optional: false,
+                              callee: createReference('Object.keys'),
+                              arguments: [{ type: 'Identifier', name: 'namespace' }]
+                            },
+                            body: {
+                              type: 'ExpressionStatement',
+                              expression: {
+                                type: 'CallExpression',
+                                optional: false,
+                                callee: createReference('Object.defineProperty'),
+                                arguments: [
+                                  { type: 'Identifier', name: 'target' },
+                                  { type: 'Identifier', name: 'name' },
+                                  {
+                                    type: 'ObjectExpression',
+                                    properties: [
+                                      {
+                                        type: 'Property',
+                                        computed: false,
+                                        method: false,
+                                        shorthand: false,
+                                        kind: 'init',
+                                        key: { type: 'Identifier', name: 'enumerable' },
+                                        value: { type: 'Literal', value: true }
+                                      },
+                                      {
+                                        type: 'Property',
+                                        computed: false,
+                                        method: false,
+                                        shorthand: false,
+                                        kind: 'init',
+                                        key: { type: 'Identifier', name: 'get' },
+                                        value: {
+                                          type: 'ArrowFunctionExpression',
+                                          expression: true,
+                                          params: [],
+                                          body: createComputedMember('namespace', 'name')
+                                        }
+                                      }
+                                    ]
+                                  }
+                                ]
+                              }
+                            }
+                          },
+                          {
+                            type: 'ExpressionStatement',
+                            expression: {
+                              type: 'CallExpression',
+                              optional: false,
+                              callee: createReference('Object.freeze'),
+                              arguments: [{ type: 'Identifier', name: 'target' }]
+                            }
+                          }
+                        ]
+                      }
+                    },
+                    {
+                      type: 'ReturnStatement',
+                      argument: {
+                        type: 'CallExpression',
+                        optional: false,
+                        callee: createComputedMember('Reflect', 'trap'),
+                        arguments: [
+                          { type: 'Identifier', name: 'object' },
+                          { type: 'Identifier', name: 'key' },
+                          { type: 'SpreadElement', argument: { type: 'Identifier', name: 'rest' } }
+                        ]
+                      }
+                    }
+                  ]
+                }
+              }
+            }
+          }
+        },
+        {
+          type: 'ReturnStatement',
+          argument: {
+            type: 'NewExpression',
+            callee: { type: 'Identifier', name: 'Proxy' },
+            arguments: [
+              { type: 'Identifier', name: 'target' },
+              { type: 'Identifier', name: 'handler' }
+            ]
+          }
+        }
+      ]
+    }
+  }
+}
+
+/**
+ * Create a function declaration which makes sure a function is only called once.
+ *
+ * The function has the signature `(factory)`. It returns a function which calls `factory` the first
+ * time it’s called, and returns the same result every time.
+ *
+ * @param name
+ *   The name of the function.
+ * @returns
+ *   The function declaration.
+ */
+function createOnceFunction(name: string): FunctionDeclaration {
+  return {
+    type: 'FunctionDeclaration',
+    id: { type: 'Identifier', name },
+    params: [{ type: 'Identifier', name: 'factory' }],
+    body: {
+      type: 'BlockStatement',
+      body: [
+        {
+          type: 'VariableDeclaration',
+          kind: 'let',
+          declarations: [{ type: 'VariableDeclarator', id: { type: 'Identifier', name: 'result' } }]
+        },
+        {
+          type: 'ReturnStatement',
+          argument: {
+            type: 'ArrowFunctionExpression',
+            expression: true,
+            params: [],
+            body: {
+              type: 'AssignmentExpression',
+              operator: '??=',
+              left: { type: 'Identifier', name: 'result' },
+              right: {
+                type: 'CallExpression',
+                optional: false,
+                callee: { type: 'Identifier', name: 'factory' },
+                arguments: []
+              }
+            }
+          }
+        }
+      ]
+    }
+  }
+}
+
+/**
+ * Link the imports of a module which was transformed using a loader as the import name.
+ *
+ * Calls to the loader which import a bundled module are replaced with a call to its factory. Other
+ * calls to the loader are replaced with calls to the import name, or with import expressions if no
+ * import name is given. The same goes for `import.meta`.
+ *
+ * @param ast
+ *   The transformed module to link.
+ * @param loaderName
+ *   The import name the module was transformed with.
+ * @param factories
+ *   A map of module specifiers to the names of the factories of the bundled modules.
+ * @param importName
+ *   The name of the custom import function for modules that aren’t bundled.
+ */
+function linkModule(
+  ast: Program,
+  loaderName: string,
+  factories: Map<string, string>,
+  importName: string | undefined
+): undefined {
+  walk(ast, {
+    enter(node) {
+      if (
+        node.type === 'CallExpression' &&
+        node.callee.type === 'Identifier' &&
+        node.callee.name === loaderName
+      ) {
+        const [source, options] = node.arguments as Expression[]
+        const specifier = getSpecifier(source)
+        const factory = specifier == null ? undefined : factories.get(specifier)
+        if (factory) {
+          this.replace(
+            copyPosition(
+              {
+                type: 'CallExpression',
+                optional: false,
+                callee: { type: 'Identifier', name: factory },
+                arguments: []
+              },
+              node
+            )
+          )
+        } else if (importName == null) {
+          this.replace(copyPosition({ type: 'ImportExpression', source, options }, node))
+        }
+      } else if (
+        node.type === 'MemberExpression' &&
+        node.object.type === 'Identifier' &&
+        node.object.name === loaderName &&
+        importName == null
+      ) {
+        this.replace(
+          copyPosition(
+            {
+              type: 'MetaProperty',
+              meta: { type: 'Identifier', name: 'import' },
+              property: { type: 'Identifier', name: 'meta' }
+            },
+            node
+          )
+        )
+      } else if (node.type === 'Identifier' && node.name === loaderName) {
+        node.name = importName!
+      }
+    }
+  })
+}
+
+/**
+ * Extract all export names of a variable declaration.
+ *
+ * @param declaration
+ *   The declaration of which to find all exported names.
+ * @param liveBindings
+ *   If true, create getters instead of plain properties.
+ * @returns
+ *   An array of properties.
+ */
+function extractExportNames(declaration: Declaration, liveBindings: boolean): Property[] {
+  return Array.from(findDeclarationIdentifiers(declaration), (identifier) =>
+    createIdentifierProperty(identifier, liveBindings)
+  )
+}
+
+/**
+ * Check if a TypeScript ESTree import or export node is type-only.
+ *
+ * @param node
+ *   The node to check.
+ * @returns
+ *   Whether the node is type-only.
+ */
+function isTypeOnly(node: object): boolean {
+  const { exportKind, importKind } = node as TypeScriptModuleKind
+  return importKind === 'type' || exportKind === 'type'
+}
+
+/**
+ * Convert a TypeScript entity name into an expression.
+ *
+ * @param node
+ *   The entity name to convert.
+ * @returns
+ *   An identifier or member expression.
+ */
+function convertEntityName(node: TSEntityName): Identifier | MemberExpression {
+  if (node.type === 'Identifier') {
+    return node
+  }
+
+  return copyPosition(
+    {
+      type: 'MemberExpression',
+      computed: false,
+      optional: false,
+      object: convertEntityName(node.left),
+      property: node.right
+    },
+    node
+  )
+}
+
+/**
+ * Convert a TypeScript import equals declaration into an ESTree declaration.
+ *
+ * `import x = require('y')` is converted into a default import, which matches how
+ * `export = value` is converted. `import x = Foo.Bar` is converted into a constant.
+ *
+ * @param node
+ *   The import equals declaration to convert.
+ * @returns
+ *   An import declaration or variable declaration.
+ */
+function convertImportEquals(
+  node: TSImportEqualsDeclaration
+): ImportDeclaration | VariableDeclaration {
+  const { id, moduleReference } = node
+
+  if (moduleReference.type === 'TSExternalModuleReference') {
+    return copyPosition(
+      {
+        type: 'ImportDeclaration',
+        attributes: [],
+        specifiers: [copyPosition({ type: 'ImportDefaultSpecifier', local: id }, id)],
+        source: moduleReference.expression
+      },
+      node
+    )
+  }
+
+  return copyPosition(
+    {
+      type: 'VariableDeclaration',
+      kind: 'const',
+      declarations: [
+        copyPosition(
+          { type: 'VariableDeclarator', id, init: convertEntityName(moduleReference) },
+          node
+        )
+      ]
+    },
+    node
+  )
+}
+
+/**
+ * Convert a Babel string literal into an ESTree literal.
+ *
+ * @param node
+ *   The node to convert.
+ * @returns
+ *   An ESTree literal if the node is a Babel string literal, otherwise the node itself.
+ */
+function convertStringLiteral<T extends Node>(node: T): T {
+  if ((node as BaseNode).type !== 'StringLiteral') {
+    return node
+  }
+
+  const { extra, value } = node as BaseNode as BabelStringLiteral
+  return copyPosition({ type: 'Literal', value, raw: extra?.raw }, node) as Node as T
+}
+
+/**
+ * Convert the properties of a Babel object expression into ESTree properties.
+ *
+ * Only the properties of the object itself and nested object expressions are converted. This is
+ * used for the options of import expressions, so their import attributes can be read.
+ *
+ * @param node
+ *   The expression to convert.
+ * @returns
+ *   The expression with ESTree properties.
+ */
+function convertObjectProperties(node: Expression): Expression {
+  if (node.type === 'ObjectExpression') {
+    for (const [index, property] of node.properties.entries()) {
+      if ((property as BaseNode).type === 'ObjectProperty') {
+        const { computed, key, shorthand, value } = property as Property
+        node.properties[index] = copyPosition(
+          {
+            type: 'Property',
+            computed,
+            method: false,
+            shorthand,
+            kind: 'init',
+            key: convertStringLiteral(key),
+            value: convertObjectProperties(convertStringLiteral(value as Expression))
+          },
+          property
+        )
+      }
+    }
+  }
+
+  return node
+}
+
+/**
+ * Convert a Babel method into an ESTree method definition or property.
+ *
+ * @param node
+ *   The method to convert.
+ * @returns
+ *   A method definition for class methods, or a property for object methods.
+ */
+function convertMethod(node: BabelMethod): MethodDefinition | Property {
+  const { async, body, generator, kind, params } = node
+  const computed = Boolean(node.computed)
+  const key =
+    node.key.type === 'PrivateName'
+      ? copyPosition({ type: 'PrivateIdentifier' as const, name: node.key.id.name }, node.key)
+      : convertStringLiteral(node.key)
+  const value = copyPosition<FunctionExpression>(
+    { type: 'FunctionExpression', async, body, generator, params },
+    node
+  )
+
+  if (node.type === 'ObjectMethod') {
+    return copyPosition(
+      {
+        type: 'Property',
+        computed,
+        method: kind === 'method',
+        shorthand: false,
+        kind: kind === 'get' || kind === 'set' ? kind : 'init',
+        key: key as Expression,
+        value
+      },
+      node
+    )
+  }
+
+  return copyPosition(
+    { type: 'MethodDefinition', computed, kind, key, static: Boolean(node.static), value },
+    node
+  )
+}
+
+/**
+ * Convert module syntax produced by older parsers or Babel into ESTree module syntax.
+ *
+ * Import assertions are converted into import attributes. For Babel ASTs, the directive prologue
+ * is converted into expression statements, string literals in module syntax are converted into
+ * ESTree literals, namespace and default export specifiers are converted into their ESTree
+ * equivalents, and `import()` calls and methods are converted into their ESTree representation.
+ * Other nodes are left untouched.
+ *
+ * @param ast
+ *   The program to process. This is modified in place.
+ */
+function convertLegacyModuleSyntax(ast: Program): undefined {
+  const body: Program['body'] = []
+
+  for (const statement of ast.body) {
+    if (
+      statement.type !== 'ImportDeclaration' &&
+      statement.type !== 'ExportAllDeclaration' &&
+      statement.type !== 'ExportNamedDeclaration'
+    ) {
+      body.push(statement)
+      continue
+    }
+
+    const { assertions } = statement as ImportAssertions
+    if (assertions) {
+      if (!statement.attributes?.length) {
+        statement.attributes = assertions
+      }
+
+      delete (statement as ImportAssertions).assertions
+    }
+
+    statement.source &&= convertStringLiteral(statement.source)
+
+    for (const attribute of statement.attributes ?? []) {
+      attribute.key = convertStringLiteral(attribute.key)
+      attribute.value = convertStringLiteral(attribute.value)
+    }
+
+    if (statement.type === 'ImportDeclaration') {
+      for (const specifier of statement.specifiers) {
+        if (specifier.type === 'ImportSpecifier') {
+          specifier.imported = convertStringLiteral(specifier.imported)
+        }
+      }
+    } else if (statement.type === 'ExportNamedDeclaration') {
+      const specifiers: ExportSpecifier[] = []
+      for (const specifier of statement.specifiers) {
+        const { exported, type } = specifier as BaseNode as ExportSpecifier
+        // Babel represents `export * as name from 'source'` as an export specifier.
+        if (type === ('ExportNamespaceSpecifier' as string)) {
+          body.push(
+            copyPosition(
+              {
+                type: 'ExportAllDeclaration',
+                exported: convertStringLiteral(exported),
+                source: statement.source!,
+                attributes: statement.attributes
+              },
+              statement
+            )
+          )
+        } else if (type === ('ExportDefaultSpecifier' as string)) {
+          specifiers.push(
+            copyPosition(
+              {
+                type: 'ExportSpecifier',
+                local: copyPosition({ type: 'Identifier', name: 'default' }, exported),
+                exported
+              },
+              specifier
+            )
+          )
+        } else {
+          specifier.local = convertStringLiteral(specifier.local)
+          specifier.exported = convertStringLiteral(exported)
+          specifiers.push(specifier)
+        }
+      }
+
+      // The declaration is dropped if it only contained namespace specifiers.
+      if (statement.specifiers.length && !specifiers.length) {
+        continue
+      }
+
+      statement.specifiers = specifiers
+    }
+
+    body.push(statement)
+  }
+
+  ast.body = body
+
+  const { directives } = ast as BabelProgram
+  if (!directives) {
+    return
+  }
+
+  ast.body.unshift(
+    ...directives.map((directive) =>
+      copyPosition<Directive>(
+        {
+          type: 'ExpressionStatement',
+          expression: copyPosition(
+            { type: 'Literal', value: directive.value.value, raw: directive.value.extra?.raw },
+            directive.value
+          ),
+          directive: directive.value.value
+        },
+        directive
+      )
+    )
+  )
+  ;(ast as BabelProgram).directives = []
+
+  walk(ast, {
+    enter(node) {
+      switch (node.type as string) {
+        case 'CallExpression': {
+          const { arguments: parameters, callee } = node as CallExpression
+          if ((callee as BaseNode).type === 'Import') {
+            const [source, options] = parameters as Expression[]
+            const importExpression: ImportExpression = copyPosition(
+              { type: 'ImportExpression', source: convertStringLiteral(source) },
+              node
+            )
+            if (options) {
+              importExpression.options = convertObjectProperties(options)
+            }
+
+            this.replace(importExpression)
+          }
+
+          break
+        }
+
+        case 'ImportExpression': {
+          const importExpression = node as ImportExpression
+          importExpression.source = convertStringLiteral(importExpression.source)
+          importExpression.options &&= convertObjectProperties(importExpression.options)
+
+          break
+        }
+
+        case 'ClassMethod':
+        case 'ClassPrivateMethod':
+        case 'ObjectMethod':
+          this.replace(convertMethod(node as BaseNode as BabelMethod))
+          break
+
+        default:
+      }
+    }
+  })
+}
+
+/**
+ * Convert TypeScript module syntax into ESTree module syntax.
+ *
+ * Type-only imports, exports, and specifiers are removed. Import equals declarations and export
+ * assignments are converted into their ESTree equivalents. Other nodes are left untouched.
+ *
+ * @param ast
+ *   The program to process. This is modified in place.
+ */
+function convertTypeScriptModuleSyntax(ast: Program): undefined {
+  const body: Program['body'] = []
+
+  for (const statement of ast.body as (
+    | Program['body'][number]
+    | TSExportAssignment
+    | TSImportEqualsDeclaration
+  )[]) {
+    switch (statement.type) {
+      case 'ImportDeclaration':
+        if (!isTypeOnly(statement)) {
+          statement.specifiers = statement.specifiers.filter((specifier) => !isTypeOnly(specifier))
+          body.push(statement)
+        }
+
+        break
+
+      case 'ExportAllDeclaration':
+        if (!isTypeOnly(statement)) {
+          body.push(statement)
+        }
+
+        break
+
+      case 'ExportNamedDeclaration': {
+        const declaration = statement.declaration as Declaration | null | TSImportEqualsDeclaration
+        if (isTypeOnly(statement) || (declaration && isTypeOnly(declaration))) {
+          break
+        }
+
+        if (declaration?.type === 'TSImportEqualsDeclaration') {
+          body.push(convertImportEquals(declaration), {
+            type: 'ExportNamedDeclaration',
+            attributes: [],
+            specifiers: [
+              copyPosition(
+                { type: 'ExportSpecifier', local: declaration.id, exported: declaration.id },
+                declaration.id
+              )
+            ]
+          })
+        } else {
+          statement.specifiers = statement.specifiers.filter((specifier) => !isTypeOnly(specifier))
+          body.push(statement)
+        }
+
+        break
+      }
+
+      case 'ExportDefaultDeclaration': {
+        // Interfaces and function overload signatures are type-only, even if they’re exported.
+        const { type } = statement.declaration as BaseNode
+        if (type !== 'TSInterfaceDeclaration' && type !== 'TSDeclareFunction') {
+          body.push(statement)
+        }
+
+        break
+      }
+
+      case 'TSImportEqualsDeclaration':
+        if (!isTypeOnly(statement)) {
+          body.push(convertImportEquals(statement))
+        }
+
+        break
+
+      case 'TSExportAssignment':
+        body.push(
+          copyPosition(
+            { type: 'ExportDefaultDeclaration', declaration: statement.expression },
+            statement
+          )
+        )
+        break
+
+      default:
+        body.push(statement)
+    }
+  }
+
+  ast.body = body
+}
+
+/**
+ * Transform ESM import or re-export declarations into import expressions.
+ *
+ * @param node
+ *   The ESM node to transform.
+ * @param importName
+ *   The import name to use for the custom import.
+ * @param phase
+ *   The phase of the import, if any.
+ * @returns
+ *   The ESM declaration as an import expression.
+ */
+function esmDeclarationToExpression(
+  node: ExportAllDeclaration | ExportNamedDeclaration | ImportDeclaration,
+  importName: string | undefined,
+  phase?: 'defer' | 'source'
+): CallExpression | ImportExpression {
+  const properties: Property[] = []
+
+  // Older versions of ESTree might not define node.attributes
+  if (node.attributes?.length) {
+    properties.push({
+      type: 'Property',
+      computed: false,
+      method: false,
+      shorthand: false,
+      kind: 'init',
+      key: {
+        type: 'Identifier',
+        name: 'with'
+      },
+      value: convertImportAttributes(node.attributes)
+    })
+  }
+
+  // Native import expressions represent the phase on the node instead.
+  if (phase && importName) {
+    properties.push(createPhaseProperty(phase))
+  }
+
+  const options: Expression | undefined = properties.length
+    ? copyPosition({ type: 'ObjectExpression', properties }, node)
+    : undefined
+
+  if (importName) {
+    const callExpression: CallExpression = copyPosition(
+      {
+        type: 'CallExpression',
+        optional: false,
+        callee: copyPosition({ type: 'Identifier', name: importName }, node),
+        arguments: [node.source!]
+      },
+      node
+    )
+
+    if (options) {
+      callExpression.arguments.push(options)
+    }
+
+    return callExpression
+  }
+
+  const importExpression: ImportExpression = copyPosition(
+    {
+      type: 'ImportExpression',
+      source: node.source!
+    },
+    node
+  )
+
+  if (options) {
+    importExpression.options = options
+  }
+
+  if (phase) {
+    ;(importExpression as ImportExpression & ImportPhase).phase = phase
+  }
+
+  return importExpression
+}
+
+/**
+ * Await an import expression.
+ *
+ * @param node
+ *   The import expression to await.
+ * @returns
+ *   An await expression with the position of the import expression.
+ */
+function createAwaitExpression(node: CallExpression | ImportExpression): AwaitExpression {
+  return copyPosition({ type: 'AwaitExpression', argument: node }, node)
+}
+
+/**
+ * Check if an expression contains an await or yield expression, excluding nested functions.
+ *
+ * @param node
+ *   The expression to check.
+ * @returns
+ *   Whether the expression suspends the function it’s in.
+ */
+function containsSuspension(node: Node): boolean {
+  let result = false
+
+  walk(node, {
+    enter(child) {
+      if (isFunction(child)) {
+        this.skip()
+      } else if (child.type === 'AwaitExpression' || child.type === 'YieldExpression') {
+        result = true
+      }
+    }
+  })
+
+  return result
+}
+
+/**
+ * Create a function which evaluates an expression that imports a module.
+ *
+ * `await` and `yield` can’t be used inside the function, so if the import arguments use these, they
+ * are evaluated first and passed in as parameters.
+ *
+ * @param node
+ *   The expression which imports a module. If needed, its arguments are replaced with the
+ *   parameters.
+ * @returns
+ *   An expression which evaluates to a function that imports the module.
+ */
+function createLoadFunction(node: CallExpression | ImportExpression): Expression {
+  const load: ArrowFunctionExpression = {
+    type: 'ArrowFunctionExpression',
+    async: false,
+    expression: true,
+    params: [],
+    body: node
+  }
+  const args =
+    node.type === 'ImportExpression'
+      ? [node.source, ...(node.options ? [node.options] : [])]
+      : (node.arguments as Expression[])
+
+  if (!args.some(containsSuspension)) {
+    return load
+  }
+
+  // The parameters may only shadow the import function.
+  const names = new Set(node.type === 'CallExpression' ? [(node.callee as Identifier).name] : [])
+  const params = args.map(
+    (arg, index): Identifier => ({
+      type: 'Identifier',
+      name: uniqueName(names, index ? 'options' : 'source')
+    })
+  )
+
+  if (node.type === 'ImportExpression') {
+    node.source = params[0]
+    node.options &&= params[1]
+  } else {
+    node.arguments = params
+  }
+
+  return {
+    type: 'CallExpression',
+    optional: false,
+    callee: { type: 'ArrowFunctionExpression', async: false, expression: true, params, body: load },
+    arguments: args
+  }
+}
+
+/**
+ * Wrap an expression which imports a module in a call to a trace function.
+ *
+ * @param node
+ *   The expression which imports a module.
+ * @param traceName
+ *   The name of the trace function.
+ * @param kind
+ *   Whether the import is static or dynamic.
+ * @param specifier
+ *   The module specifier, if it’s known at transform time.
+ * @param attributes
+ *   The import attributes.
+ * @returns
+ *   A call to the trace function with a function which imports the module and an
+ *   {@link ImportTraceInfo} object.
+ */
+function createTraceCall(
+  node: CallExpression | ImportExpression,
+  traceName: string,
+  kind: ImportTraceInfo['kind'],
+  specifier: string | undefined,
+  attributes: Record<string, string>
+): CallExpression {
+  const info = [
+    createProperty({ type: 'Identifier', name: 'kind' }, { type: 'Literal', value: kind })
+  ]
+
+  if (specifier != null) {
+    info.push(
+      createProperty(
+        { type: 'Identifier', name: 'specifier' },
+        { type: 'Literal', value: specifier }
+      )
+    )
+  }
+
+  info.push(
+    createProperty(
+      { type: 'Identifier', name: 'attributes' },
+      {
+        type: 'ObjectExpression',
+        properties: Object.entries(attributes).map(([key, value]) =>
+          createProperty({ type: 'Literal', value: key }, { type: 'Literal', value })
+        )
+      }
+    )
+  )
+
+  if (node.loc) {
+    const { column, line } = node.loc.start
+    info.push(
+      createProperty({ type: 'Identifier', name: 'line' }, { type: 'Literal', value: line }),
+      createProperty({ type: 'Identifier', name: 'column' }, { type: 'Literal', value: column })
+    )
+  }
+
+  return copyPosition(
+    {
+      type: 'CallExpression',
+      optional: false,
+      callee: { type: 'Identifier', name: traceName },
+      arguments: [createLoadFunction(node), { type: 'ObjectExpression', properties: info }]
+    },
+    node
+  )
+}
+
+/**
+ * Replace import array references in the return exports with just a direct reference.
+ *
+ * The `Promise.all()` call is avoided when only one import expression is needed.
+ *
+ * @param node
+ *   The node to replace the reference for.
+ */
+function singularImport(node: MemberExpression | Property | SpreadElement): undefined {
+  switch (node.type) {
+    case 'MemberExpression':
+      if (node.object.type === 'MemberExpression') {
+        node.object = node.object.object
+      }
+      return
+    case 'Property':
+      if (node.value.type === 'MemberExpression' && node.value.object.type === 'Identifier') {
+        node.value = node.value.object
+      }
+      return
+    case 'SpreadElement':
+      if (node.argument.type === 'MemberExpression' && node.argument.object.type === 'Identifier') {
+        node.argument = node.argument.object
+      }
+  }
+}
+
+/**
+ * Options passed to an {@link Import} or {@link Require} function.
+ */
+export interface ImportOptions extends ImportCallOptions {
+  /**
+   * The phase of the import. This is `'defer'` for `import defer` declarations and
+   * `import.defer()` expressions, and `'source'` for `import source` declarations and
+   * `import.source()` expressions.
+   */
+  phase?: 'defer' | 'source'
+}
+
+/**
+ * A function that looks like an import expression.
+ */
+export interface Import {
+  /**
+   * A custom dynamic import handler.
+   *
+   * @param specifier
+   *   The module to import from.
+   *
+   *   See https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Operators/import#modulename
+   * @param options
+   *   An object containing import options.
+   *
+   *   See https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Operators/import#options
+   * @returns
+   *   A promise that resolves to the module.
+   */
+  (specifier: string, options?: ImportOptions): Promise<Record<string, unknown>>
+
+  /**
+   * The `import.meta` meta-property exposes context-specific metadata to a JavaScript module.
+   *
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Operators/import.meta
+   */
+  meta?: Partial<ImportMeta>
+}
+
+/**
+ * A function that synchronously imports a module, like `require()`.
+ *
+ * @param specifier
+ *   The module to import from.
+ * @param options
+ *   An object containing import options.
+ * @returns
+ *   The module.
+ */
+export type Require = (specifier: string, options?: ImportOptions) => Record<string, unknown>
+
+/**
+ * Information about an import which is traced using `traceName`.
+ */
+export interface ImportTraceInfo {
+  /**
+   * `'static'` for import and re-export declarations, `'dynamic'` for import expressions.
+   */
+  kind: 'dynamic' | 'static'
+
+  /**
+   * The module specifier. This is missing for import expressions whose specifier isn’t a string
+   * literal.
+   */
+  specifier?: string
+
+  /**
+   * The import attributes. For import expressions, only attributes which are defined using
+   * literals are included.
+   */
+  attributes: Record<string, string>
+
+  /**
+   * The 1-indexed line of the import in the original module, if the AST has location information.
+   */
+  line?: number
+
+  /**
+   * The 0-indexed column of the import in the original module, if the AST has location
+   * information.
+   */
+  column?: number
+}
+
+/**
+ * A function which traces an import.
+ *
+ * @param load
+ *   A function which imports the module. For asynchronous imports this returns a promise, for
+ *   imports using `requireName` it returns the module.
+ * @param info
+ *   Information about the import.
+ * @returns
+ *   The return value of `load`.
+ */
+export type TraceImport = <T>(load: () => T, info: ImportTraceInfo) => T
+
+export namespace moduleToFunction {
+  export interface Options {
+    /**
+     * Global variables which are accessed directly, even if `globalsName` is specified.
+     *
+     * This can be used to allow access to harmless globals, such as `Object` or `Math`.
+     */
+    allowGlobals?: string[]
+
+    /**
+     * If specified, only these global variables are looked up on `globalsName`. All other global
+     * variables are accessed directly.
+     *
+     * By default all global variables are looked up on `globalsName`, except those in
+     * `allowGlobals`.
+     */
+    denyGlobals?: string[]
+
+    /**
+     * If specified, exports are defined on the object this expression refers to instead of being
+     * returned. This may be a variable name, such as `exports`, or a property path, such as
+     * `module.exports`.
+     *
+     * All exports are defined as enumerable getters at the start of the function body, so a
+     * partially evaluated module can be observed. Exports from star re-exports are defined once
+     * the re-exported modules have been imported. They never override other exports, and names
+     * exported by multiple star re-exports with different values are excluded.
+     */
+    exportsName?: string
+
+    /**
+     * Module specifiers which are imported natively, even if `importName` is specified.
+     *
+     * This may be a list of specifiers, a regular expression, or a function which returns whether
+     * a specifier is external. This applies to static imports and re-exports, unless
+     * `requireName` is specified, and to import expressions whose specifier is a string literal.
+     * Specifiers are matched after they have been resolved using `resolve`.
+     */
+    externals?: ((specifier: string) => boolean) | RegExp | string[]
+
+    /**
+     * If specified, references to global variables are replaced with property lookups on an object
+     * with this name. This includes `globalThis`, `eval`, and `Function`.
+     *
+     * Top-level `this` is replaced with `undefined`, like in a real module. Top-level `arguments`
+     * is always looked up on this object, so it can’t refer to the arguments of the generated
+     * function. A direct `eval()` call becomes an indirect call, so evaluated code can’t access
+     * local variables.
+     *
+     * An error is thrown if a module scope binding has this name, or if a binding with this name
+     * shadows the object where a global variable is referenced.
+     *
+     * Together with `importName`, this can be used to control which globals and modules are
+     * available to the module. This isn’t a security boundary by itself. For example, the module
+     * may still access globals through the prototype chain of objects it can reach.
+     */
+    globalsName?: string
+
+    /**
+     * If specified, a variable of this name will be used to replace imports.
+     *
+     * By default a dynamic import statements will be used.
+     */
+    importName?: string
+
+    /**
+     * How static imports are evaluated.
+     *
+     * If this is `'parallel'`, all imports are loaded concurrently using `Promise.all()`. If this
+     * is `'sequential'`, each import is awaited in source order before the next one is loaded.
+     * This preserves the evaluation order of ECMAScript modules, which matters for modules with
+     * side effects.
+     *
+     * @default 'parallel'
+     */
+    importOrder?: 'parallel' | 'sequential'
+
+    /**
+     * If true, exports are returned as getters, so the returned object reflects the current value
+     * of exported bindings, like ESM live bindings.
+     *
+     * @default false
+     */
+    liveBindings?: boolean
+
+    /**
+     * If true, imported bindings are read from the module namespace object when they’re used,
+     * instead of when the module starts evaluating.
+     *
+     * Named and default imports are converted into namespace imports, and references to them
+     * become property lookups on the namespace. This is needed for circular imports of bindings
+     * which haven’t been initialized yet when the importing module starts evaluating.
+     *
+     * @default false
+     */
+    liveImports?: boolean
+
+    /**
+     * Values of `import.meta` which are known at transform time.
+     *
+     * Reading a string property of `import.meta`, such as `import.meta.url`, is replaced with its
+     * value. If `resolve` is specified, calls to `import.meta.resolve()` with a string literal are
+     * replaced with the resolved specifier. Other uses of `import.meta` are left as-is.
+     */
+    meta?: Partial<ImportMeta>
+
+    /**
+     * If specified, `import.meta` is replaced with an identifier with this name.
+     *
+     * By default `import.meta` is replaced with `importName.meta` if `importName` is specified.
+     */
+    metaName?: string
+
+    /**
+     * A prefix for identifiers generated by the transform.
+     *
+     * Generated identifiers never collide with identifiers in the program. If a generated name is
+     * already in use, a numeric suffix is added.
+     *
+     * By default the names `_imports`, `__default_export__`, `m`, `_`, `_namespace`, `_value`,
+     * and `_defer` are used. If a prefix is specified, the names `${prefix}imports`,
+     * `${prefix}default_export`, `${prefix}module`, `${prefix}ignored`, `${prefix}namespace`,
+     * `${prefix}value`, and `${prefix}defer` are used instead.
+     *
+     * Module scope bindings named `Object`, `Promise`, `Proxy`, `Reflect`, or `Symbol` would shadow
+     * globals which the generated code uses, so they are renamed to `_Object` etc., or
+     * `${prefix}Object` etc. if a prefix is specified. They are still exported under their original
+     * names.
+     */
+    prefix?: string
+
+    /**
+     * If true, import specifiers whose local binding is never referenced are removed.
+     *
+     * An import declaration without any remaining specifiers becomes a bare import, so the side
+     * effects of the imported module are preserved. If `sideEffects` returns `false` for the
+     * module, the declaration is removed completely. Unused `import defer` and `import source`
+     * declarations don’t evaluate the module, so these are always removed completely.
+     *
+     * If the module uses direct `eval()`, references can’t be determined, so no imports are
+     * removed.
+     *
+     * @default false
+     */
+    removeUnusedImports?: boolean
+
+    /**
+     * If true, the module is treated as a REPL or notebook cell.
+     *
+     * Instead of the module namespace object, the function body returns an object. Its
+     * `declarations` property holds the values of all top-level `var`, `let`, `const`, `function`,
+     * and `class` declarations, so they can be exposed to the next cell. Its `exports` property
+     * holds the module namespace object, unless `exportsName` is specified. Its `value` property
+     * holds the value of the last top-level expression statement, if there is one.
+     *
+     * @default false
+     */
+    repl?: boolean
+
+    /**
+     * If specified, static imports and re-exports are transformed into synchronous calls to a
+     * function with this name. See {@link Require}.
+     *
+     * Because the resulting function body is meant to run synchronously, an error is thrown if the
+     * module uses top-level `await`.
+     */
+    requireName?: string
+
+    /**
+     * Resolve module specifiers at transform time.
+     *
+     * This is called for the source of every import declaration, re-export declaration, and
+     * import expression whose specifier is a string literal. The source is replaced with the
+     * returned specifier. This may throw to disallow importing a module.
+     *
+     * @param specifier
+     *   The module specifier to resolve.
+     * @param attributes
+     *   The import attributes of the import. For import expressions, only attributes which are
+     *   defined using literals are included.
+     * @returns
+     *   The resolved module specifier.
+     */
+    resolve?: (specifier: string, attributes: Record<string, string>) => string
+
+    /**
+     * Check whether importing a module has side effects.
+     *
+     * This is only used if `removeUnusedImports` is true. By default all modules are assumed to
+     * have side effects.
+     *
+     * @param specifier
+     *   The module specifier, after it has been resolved using `resolve`.
+     * @returns
+     *   `false` if the module can be removed if none of its imports are used.
+     */
+    sideEffects?: (specifier: string) => boolean
+
+    /**
+     * If specified, every import is wrapped in a call to a function with this name. See
+     * {@link TraceImport}.
+     *
+     * This applies to static imports, re-exports, and import expressions, including those which are
+     * imported natively. The function receives a function which performs the import, and an
+     * {@link ImportTraceInfo} object which describes the import. This can be used to profile module
+     * loading, or to add context to import errors.
+     */
+    traceName?: string
+
+    /**
+     * Validate the module before transforming it.
+     *
+     * The transform can’t represent some invalid modules correctly. For example, an assignment to
+     * an imported binding would assign to a local constant. If this is `'throw'`, a `SyntaxError`
+     * is thrown for the first problem found. The error has a `diagnostic` property which holds the
+     * {@link Diagnostic}. If this is `'collect'`, all problems are reported as diagnostics in the
+     * result. By default the module isn’t validated.
+     */
+    validate?: 'collect' | 'throw'
+  }
+
+  /**
+   * A problem found while validating a module.
+   *
+   * The position properties are copied from the node which caused the problem.
+   */
+  export interface Diagnostic {
+    /**
+     * A stable code which identifies the kind of problem.
+     *
+     * - `duplicate-export`: A name is exported more than once.
+     * - `duplicate-import`: An import binding is declared more than once.
+     * - `import-assignment`: An imported binding is assigned to.
+     * - `undeclared-export`: A local export refers to a binding which isn’t declared.
+     */
+    code: 'duplicate-export' | 'duplicate-import' | 'import-assignment' | 'undeclared-export'
+
+    /**
+     * A human readable description of the problem.
+     */
+    message: string
+
+    /**
+     * The start offset of the node which caused the problem.
+     */
+    start?: number
+
+    /**
+     * The end offset of the node which caused the problem.
+     */
+    end?: number
+
+    /**
+     * The line and column information of the node which caused the problem.
+     */
+    loc?: null | SourceLocation
+
+    /**
+     * The start and end offset of the node which caused the problem.
+     */
+    range?: [number, number]
+  }
+
+  /**
+   * A module imported using a static import or re-export declaration.
+   */
+  export interface StaticImport {
+    /**
+     * The module specifier.
+     */
+    source: string
+
+    /**
+     * The import attributes.
+     */
+    attributes: Record<string, string>
 
-    if (options) {
-      callExpression.arguments.push(options)
-    }
+    /**
+     * The names that are imported. A namespace import is represented as `*`. A source phase
+     * import doesn’t import any names.
+     */
+    names: string[]
 
-    return callExpression
+    /**
+     * The phase of the import, if it’s an `import defer` or `import source` declaration.
+     */
+    phase?: 'defer' | 'source'
   }
 
-  const importExpression: ImportExpression = {
-    type: 'ImportExpression',
-    source: node.source!
+  /**
+   * An export of a local binding.
+   */
+  export interface LocalExport {
+    /**
+     * This is an export of a local binding.
+     */
+    kind: 'local'
+
+    /**
+     * The exported name.
+     */
+    name: string
   }
 
-  if (options) {
-    importExpression.options = options
+  /**
+   * A named export of a binding from another module.
+   */
+  export interface ReExport {
+    /**
+     * This is a named re-export.
+     */
+    kind: 're-export'
+
+    /**
+     * The exported name.
+     */
+    name: string
+
+    /**
+     * The module specifier that is re-exported from.
+     */
+    source: string
+
+    /**
+     * The name of the imported binding. A namespace re-export is represented as `*`.
+     */
+    imported: string
   }
 
-  return importExpression
-}
+  /**
+   * An export of all named exports of another module.
+   */
+  export interface StarExport {
+    /**
+     * This is a star re-export.
+     */
+    kind: 'star'
 
-/**
- * Replace import array references in the return exports with just a direct reference.
- *
- * The `Promise.all()` call is avoided when only one import expression is needed.
- *
- * @param node
- *   The node to replace the reference for.
- */
-function singularImport(node: MemberExpression | Property | SpreadElement): undefined {
-  switch (node.type) {
-    case 'MemberExpression':
-      if (node.object.type === 'MemberExpression') {
-        node.object = node.object.object
-      }
-      return
-    case 'Property':
-      if (node.value.type === 'MemberExpression' && node.value.object.type === 'Identifier') {
-        node.value = node.value.object
-      }
-      return
-    case 'SpreadElement':
-      if (node.argument.type === 'MemberExpression' && node.argument.object.type === 'Identifier') {
-        node.argument = node.argument.object
-      }
+    /**
+     * The module specifier that is re-exported from.
+     */
+    source: string
   }
-}
 
-/**
- * A function that looks like an import expression.
- */
-export interface Import {
+  export type Export = LocalExport | ReExport | StarExport
+
   /**
-   * A custom dynamic import handler.
-   *
-   * @param specifier
-   *   The module to import from.
-   *
-   *   See https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Operators/import#modulename
-   * @param options
-   *   An object containing import options.
-   *
-   *   See https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Operators/import#options
-   * @returns
-   *   A promise that resolves to the module.
+   * A Babel `File` node, which wraps a program.
    */
-  (specifier: string, options?: ImportCallOptions): Promise<Record<string, unknown>>
+  export interface File {
+    /**
+     * This is a Babel `File` node.
+     */
+    type: 'File'
+
+    /**
+     * The program of the file.
+     */
+    program: Program
+  }
 
   /**
-   * The `import.meta` meta-property exposes context-specific metadata to a JavaScript module.
-   *
-   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Operators/import.meta
+   * Information about the module that was transformed.
    */
-  meta?: Partial<ImportMeta>
-}
+  export interface Result {
+    /**
+     * All modules that are imported using static import or re-export declarations.
+     */
+    imports: StaticImport[]
 
-export namespace moduleToFunction {
-  export interface Options {
     /**
-     * If specified, a variable of this name will be used to replace imports.
-     *
-     * By default a dynamic import statements will be used.
+     * All exports of the module.
      */
-    importName?: string
+    exports: Export[]
+
+    /**
+     * The module specifiers of dynamic imports whose specifier is a string literal.
+     */
+    dynamicImports: string[]
+
+    /**
+     * Whether the resulting function body uses `import.meta`. Uses which were replaced with
+     * values from the `meta` option don’t count.
+     */
+    importMeta: boolean
+
+    /**
+     * Whether the resulting function body uses `await`, so it needs to be run as an async function.
+     */
+    async: boolean
+
+    /**
+     * The problems found in the module if `validate` is `'collect'`.
+     */
+    diagnostics: Diagnostic[]
   }
 }
 
@@ -342,336 +4084,1197 @@ export namespace moduleToFunction {
  *   The AST to process. The AST itself will be modified in place.
  * @param options
  *   Additional options.
+ * @returns
+ *   Information about the imports and exports of the module.
  */
 export function moduleToFunction(
-  ast: Program,
-  { importName }: moduleToFunction.Options = {}
-): undefined {
+  ast: moduleToFunction.File | Program,
+  {
+    allowGlobals,
+    denyGlobals,
+    exportsName,
+    externals,
+    globalsName,
+    importName,
+    importOrder = 'parallel',
+    liveBindings = false,
+    liveImports = false,
+    meta,
+    metaName,
+    prefix,
+    removeUnusedImports = false,
+    repl = false,
+    requireName,
+    resolve,
+    sideEffects,
+    traceName,
+    validate
+  }: moduleToFunction.Options = {}
+): moduleToFunction.Result {
+  if (ast.type === 'File') {
+    ast = ast.program
+  }
+
+  convertLegacyModuleSyntax(ast)
+  convertTypeScriptModuleSyntax(ast)
+  const diagnostics = validate ? validateModule(ast) : []
+  if (validate === 'throw' && diagnostics.length) {
+    const [diagnostic] = diagnostics
+    throw Object.assign(new SyntaxError(`${diagnostic.message}${formatPosition(diagnostic)}`), {
+      diagnostic
+    })
+  }
+
+  if (globalsName) {
+    scopeGlobals(ast, globalsName, allowGlobals, denyGlobals)
+  }
+
+  const originalNames = renameShadowedGlobals(ast, prefix)
+  if (liveImports) {
+    convertLiveImports(ast, prefix)
+  }
+
+  // Exports defined on an exports object are always live, so getters in the exports are redundant.
+  liveBindings &&= !exportsName
+  const names = new Set<string>()
   let directive: ExpressionStatement | undefined
+  let completion: ExpressionStatement | undefined
+  let functionDepth = 0
+  let topLevelAwait = false
+  let importMeta = false
+  const staticImports: moduleToFunction.StaticImport[] = []
+  const exportInfos: moduleToFunction.Export[] = []
+  const dynamicImports: string[] = []
   const importAssignments: (null | Pattern)[] = []
   const importExpressions: (CallExpression | ImportExpression)[] = []
   const toPatch: (MemberExpression | Property | SpreadElement)[] = []
-  const exports: (Property | SpreadElement)[] = [
-    {
-      type: 'Property',
-      computed: false,
-      method: false,
-      shorthand: false,
-      kind: 'init',
-      key: { type: 'Identifier', name: '__proto__' },
-      value: { type: 'Literal', value: null }
-    },
-    {
-      type: 'Property',
-      computed: true,
-      method: false,
-      shorthand: false,
-      kind: 'init',
-      key: {
-        type: 'MemberExpression',
-        computed: false,
-        optional: false,
-        object: { type: 'Identifier', name: 'Symbol' },
-        property: { type: 'Identifier', name: 'toStringTag' }
-      },
-      value: { type: 'Literal', value: 'Module' }
+  const exports: (Property | SpreadElement)[] = []
+  const replDeclarations: Property[] = []
+  const deferredImports: VariableDeclarator[] = []
+  let deferName: string | undefined
+  const isExternal = createExternalsMatcher(externals)
+  const references = removeUnusedImports ? findModuleReferences(ast) : undefined
+  const tracedImports = new WeakSet<ImportExpression>()
+
+  /**
+   * Get the name of the custom import function to import a module with.
+   *
+   * @param specifier
+   *   The module specifier, if it’s known at transform time.
+   * @returns
+   *   The name of the custom import function, or `undefined` if the module is imported natively.
+   */
+  function getImportName(specifier: string | undefined): string | undefined {
+    if (specifier == null || !isExternal(specifier)) {
+      return importName
     }
-  ]
+  }
 
-  walk(ast, {
-    enter(node) {
-      switch (node.type) {
-        case 'ExpressionStatement': {
-          const { expression } = node
-          if (expression.type !== 'Literal') {
-            return
-          }
+  /**
+   * Transform an ESM import or re-export declaration into an expression which imports the module,
+   * and trace it if `traceName` is specified.
+   *
+   * @param node
+   *   The ESM node to transform.
+   * @param name
+   *   The name of the function to import the module with, if any.
+   * @param phase
+   *   The phase of the import, if any.
+   * @returns
+   *   The expression which imports the module.
+   */
+  function importDeclaration(
+    node: ExportAllDeclaration | ExportNamedDeclaration | ImportDeclaration,
+    name: string | undefined,
+    phase?: 'defer' | 'source'
+  ): CallExpression | ImportExpression {
+    const expression = esmDeclarationToExpression(node, name, phase)
+    if (!traceName) {
+      return expression
+    }
 
-          if (expression.value !== 'use strict') {
-            return
-          }
+    return createTraceCall(
+      expression,
+      traceName,
+      'static',
+      String(node.source!.value),
+      getAttributes(node.attributes)
+    )
+  }
+
+  if (repl) {
+    for (const statement of ast.body) {
+      const declaration =
+        statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration'
+          ? statement.declaration
+          : statement
+      if (
+        declaration?.type === 'VariableDeclaration' ||
+        ((declaration?.type === 'FunctionDeclaration' ||
+          declaration?.type === 'ClassDeclaration') &&
+          declaration.id)
+      ) {
+        for (const identifier of findDeclarationIdentifiers(declaration as Declaration)) {
+          replDeclarations.push(
+            createIdentifierProperty(identifier, liveBindings, originalNames.get(identifier.name))
+          )
+        }
+      }
+    }
+  }
+
+  /**
+   * Transform a node nested in the program, and collect information about it.
+   *
+   * This collects all identifier names, so generated names don’t collide with them. Import
+   * expressions and `import.meta` are transformed, and directives are removed.
+   *
+   * @param node
+   *   The node to transform.
+   * @param parent
+   *   The parent node of the node.
+   * @returns
+   *   A node to replace the node with, `'remove'` to remove the node, or `'skip'` if the node has
+   *   been traversed already.
+   */
+  function visit(node: Node, parent: Node): 'remove' | 'skip' | Node | undefined {
+    if (isFunction(node)) {
+      functionDepth += 1
+      traverse(node, visit)
+      functionDepth -= 1
+      return 'skip'
+    }
+
+    switch (node.type) {
+      case 'Identifier':
+        names.add(node.name)
+        return
+
+      // Specifiers are resolved in source order, so this happens during the traversal.
+      case 'ImportDeclaration':
+      case 'ExportAllDeclaration':
+      case 'ExportNamedDeclaration':
+        if (resolve && node.source) {
+          node.source = resolveSource(
+            node.source,
+            String(node.source.value),
+            getAttributes(node.attributes),
+            resolve
+          )
+        }
+        return
 
+      case 'ExpressionStatement': {
+        const { expression } = node
+        if (expression.type === 'Literal' && expression.value === 'use strict') {
           directive ||= node
-          this.remove()
+          return 'remove'
+        }
+
+        if (repl && parent === ast) {
+          completion = node
+        }
+
+        return
+      }
+
+      case 'ImportExpression': {
+        // A traced import expression is visited again as part of its trace call.
+        if (tracedImports.has(node)) {
           return
         }
 
-        case 'ImportDeclaration': {
-          const properties: AssignmentProperty[] = []
-          let starIdentifier: Identifier | null = null
-          for (const specifier of node.specifiers) {
-            switch (specifier.type) {
-              case 'ImportDefaultSpecifier':
-                properties.push({
-                  type: 'Property',
-                  computed: false,
-                  method: false,
-                  shorthand: false,
-                  kind: 'init',
-                  key: { type: 'Identifier', name: 'default' },
-                  value: specifier.local
-                })
-                break
-              case 'ImportNamespaceSpecifier':
-                starIdentifier = specifier.local
-                break
-              case 'ImportSpecifier':
-                properties.push({
-                  type: 'Property',
-                  computed: false,
-                  method: false,
-                  shorthand: isShorthand(specifier.imported, specifier.local),
-                  kind: 'init',
-                  key: specifier.imported,
-                  value: specifier.local
-                })
-                break
-            }
+        convertImportAssertionsOption(node.options)
+        if (resolve) {
+          const attributes = getImportExpressionAttributes(node.options)
+          if (node.source.type === 'Literal' && typeof node.source.value === 'string') {
+            node.source = resolveSource(node.source, node.source.value, attributes, resolve)
+          } else if (node.source.type === 'TemplateLiteral' && !node.source.expressions.length) {
+            node.source = resolveSource(
+              node.source,
+              node.source.quasis[0].value.cooked!,
+              attributes,
+              resolve
+            )
           }
-          importAssignments.push(
-            properties.length ? { type: 'ObjectPattern', properties } : starIdentifier
+        }
+
+        const specifier = getSpecifier(node.source)
+        if (specifier != null) {
+          dynamicImports.push(specifier)
+        }
+        const callee = getImportName(specifier)
+        const expression = callee ? convertImportExpression(node, callee) : node
+        if (traceName) {
+          tracedImports.add(node)
+          return createTraceCall(
+            expression,
+            traceName,
+            'dynamic',
+            specifier,
+            getImportExpressionAttributes(node.options)
           )
-          importExpressions.push(esmDeclarationToExpression(node, importName))
-          this.remove()
-          return
         }
 
-        case 'ImportExpression':
-          if (importName) {
-            this.replace(convertImportExpression(node, importName))
-          }
+        if (callee) {
+          return expression
+        }
+        return
+      }
+
+      case 'CallExpression': {
+        const resolved =
+          meta?.resolve &&
+          node.arguments.length === 1 &&
+          getMetaPropertyName(node.callee) === 'resolve'
+            ? getSpecifier(node.arguments[0])
+            : undefined
+        if (resolved != null) {
+          return copyPosition({ type: 'Literal', value: meta!.resolve!(resolved) }, node)
+        }
+        return
+      }
+
+      case 'MemberExpression': {
+        const name = getMetaPropertyName(node)
+        const value = name == null ? undefined : meta?.[name as keyof ImportMeta]
+        if (typeof value === 'string' && !isAssignmentTarget(node, parent)) {
+          return copyPosition({ type: 'Literal', value }, node)
+        }
+        return
+      }
+
+      case 'MetaProperty':
+        if (node.meta.name !== 'import') {
           return
+        }
+        importMeta = true
+        if (metaName) {
+          return copyPosition({ type: 'Identifier', name: metaName }, node)
+        }
+        if (importName) {
+          return convertMetaProperty(node, importName)
+        }
+        return
 
-        case 'MetaProperty':
-          if (importName) {
-            this.replace(convertMetaProperty(node, importName))
-          }
+      case 'AwaitExpression':
+      case 'ForOfStatement':
+        if (functionDepth || (node.type === 'ForOfStatement' && !node.await)) {
           return
+        }
+        if (requireName) {
+          throw new Error(
+            `Top-level await is not supported if requireName is specified${formatPosition(node)}`
+          )
+        }
+        topLevelAwait = true
+        break
+
+      default:
+    }
+  }
+
+  // Unless Babel ASTs or options need conversions, this is the only walk over the whole program.
+  // Module declarations are handled below without descending into them. Nested nodes can’t be
+  // skipped though: the analysis reports import expressions, `import.meta`, and top-level await
+  // anywhere in the program, and generated names must not collide with any identifier, including
+  // those in nested scopes.
+  traverse(ast, visit)
+
+  const importsName = uniqueName(names, prefix == null ? '_imports' : `${prefix}imports`)
+  const defaultExportName = uniqueName(
+    names,
+    prefix == null ? '__default_export__' : `${prefix}default_export`
+  )
+  const moduleName = uniqueName(names, prefix == null ? 'm' : `${prefix}module`)
+  const ignoredName = uniqueName(names, prefix == null ? '_' : `${prefix}ignored`)
+  const body: Program['body'] = []
 
-        case 'ExportDefaultDeclaration': {
-          const { declaration } = node
+  // Module declarations can only appear at the top level, so these don’t need a deep traversal.
+  for (const node of ast.body) {
+    switch (node.type) {
+      case 'ImportDeclaration': {
+        const phase = getPhase(node)
+        if (references) {
+          node.specifiers = node.specifiers.filter((specifier) =>
+            references.has(specifier.local.name)
+          )
           if (
-            declaration.type === 'FunctionDeclaration' ||
-            declaration.type === 'ClassDeclaration'
+            !node.specifiers.length &&
+            (phase || sideEffects?.(String(node.source.value)) === false)
           ) {
-            declaration.id ||= { type: 'Identifier', name: '__default_export__' }
-            this.replace(declaration as ClassDeclaration | FunctionDeclaration)
-            exports.push(
-              createProperty(
-                { type: 'Identifier', name: 'default' },
-                { type: 'Identifier', name: declaration.id.name }
+            continue
+          }
+        }
+
+        const properties: AssignmentProperty[] = []
+        const importedNames: string[] = []
+        let starIdentifier: Identifier | null = null
+        for (const specifier of node.specifiers) {
+          switch (specifier.type) {
+            case 'ImportDefaultSpecifier':
+              // A source phase import binds the module source itself.
+              if (phase === 'source') {
+                starIdentifier = specifier.local
+                break
+              }
+              importedNames.push('default')
+              properties.push(
+                copyPosition(
+                  {
+                    type: 'Property',
+                    computed: false,
+                    method: false,
+                    shorthand: false,
+                    kind: 'init',
+                    key: copyPosition({ type: 'Identifier', name: 'default' }, specifier),
+                    value: specifier.local
+                  },
+                  specifier
+                )
               )
+              break
+            case 'ImportNamespaceSpecifier':
+              importedNames.push('*')
+              starIdentifier = specifier.local
+              break
+            case 'ImportSpecifier':
+              importedNames.push(getName(specifier.imported))
+              properties.push(
+                copyPosition(
+                  {
+                    type: 'Property',
+                    computed: false,
+                    method: false,
+                    shorthand: isShorthand(specifier.imported, specifier.local),
+                    kind: 'init',
+                    key: specifier.imported,
+                    value: specifier.local
+                  },
+                  specifier
+                )
+              )
+              break
+          }
+        }
+        const staticImport: moduleToFunction.StaticImport = {
+          source: String(node.source.value),
+          attributes: getAttributes(node.attributes),
+          names: importedNames
+        }
+        if (phase) {
+          staticImport.phase = phase
+        }
+        staticImports.push(staticImport)
+
+        // Synchronous imports can be deferred until the namespace is accessed. Asynchronous
+        // imports can’t, so these pass the phase to the import function instead.
+        if (phase === 'defer' && requireName) {
+          deferName ??= uniqueName(names, prefix == null ? '_defer' : `${prefix}defer`)
+          deferredImports.push(
+            copyPosition(
+              {
+                type: 'VariableDeclarator',
+                id: starIdentifier!,
+                init: copyPosition(
+                  {
+                    type: 'CallExpression',
+                    optional: false,
+                    callee: { type: 'Identifier', name: deferName },
+                    arguments: [
+                      {
+                        type: 'ArrowFunctionExpression',
+                        expression: true,
+                        params: [],
+                        body: importDeclaration(node, requireName)
+                      }
+                    ]
+                  },
+                  node
+                )
+              },
+              node
             )
-          } else {
-            this.replace({
-              type: 'VariableDeclaration',
-              kind: 'const',
-              declarations: [
-                {
-                  type: 'VariableDeclarator',
-                  id: { type: 'Identifier', name: '__default_export__' },
-                  init: declaration
-                }
-              ]
+          )
+        } else {
+          importAssignments.push(
+            properties.length
+              ? copyPosition({ type: 'ObjectPattern', properties }, node)
+              : starIdentifier
+          )
+          importExpressions.push(
+            importDeclaration(node, requireName ?? getImportName(String(node.source.value)), phase)
+          )
+        }
+        continue
+      }
+
+      case 'ExportDefaultDeclaration': {
+        const { declaration } = node
+        exportInfos.push({ kind: 'local', name: 'default' })
+        if (declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') {
+          declaration.id ||= { type: 'Identifier', name: defaultExportName }
+          body.push(declaration as ClassDeclaration | FunctionDeclaration)
+          exports.push(
+            copyPosition(
+              createProperty(
+                copyPosition({ type: 'Identifier', name: 'default' }, node),
+                copyPosition({ type: 'Identifier', name: declaration.id.name }, declaration.id),
+                liveBindings
+              ),
+              node
+            )
+          )
+        } else {
+          body.push(
+            copyPosition(
+              {
+                type: 'VariableDeclaration',
+                kind: 'const',
+                declarations: [
+                  copyPosition(
+                    {
+                      type: 'VariableDeclarator',
+                      id: copyPosition({ type: 'Identifier', name: defaultExportName }, node),
+                      init: declaration
+                    },
+                    node
+                  )
+                ]
+              },
+              node
+            )
+          )
+          exports.push(
+            copyPosition(
+              createProperty(
+                copyPosition({ type: 'Identifier', name: 'default' }, node),
+                copyPosition({ type: 'Identifier', name: defaultExportName }, node),
+                liveBindings
+              ),
+              node
+            )
+          )
+        }
+        continue
+      }
+
+      case 'ExportNamedDeclaration':
+        if (node.declaration) {
+          const properties = extractExportNames(node.declaration, liveBindings)
+          for (const property of properties) {
+            exportInfos.push({
+              kind: 'local',
+              name: getName(property.key as Identifier | Literal)
             })
+          }
+          exports.push(...properties)
+          body.push(node.declaration)
+          continue
+        }
+        if (node.source == null) {
+          for (const specifier of node.specifiers) {
+            exportInfos.push({ kind: 'local', name: getName(specifier.exported) })
             exports.push(
-              createProperty(
-                { type: 'Identifier', name: 'default' },
-                { type: 'Identifier', name: '__default_export__' }
+              copyPosition(
+                createProperty(specifier.exported, specifier.local, liveBindings),
+                specifier
               )
             )
           }
-          return
-        }
-
-        case 'ExportNamedDeclaration':
-          if (node.declaration) {
-            exports.push(...extractExportNames(node.declaration))
-            this.replace(node.declaration)
-            return
-          }
-          if (node.source == null) {
-            for (const specifier of node.specifiers) {
-              exports.push(createProperty(specifier.exported, specifier.local))
+        } else {
+          const source = String(node.source.value)
+          staticImports.push({
+            source,
+            attributes: getAttributes(node.attributes),
+            names: node.specifiers.map((specifier) => getName(specifier.local))
+          })
+          for (const specifier of node.specifiers) {
+            exportInfos.push({
+              kind: 're-export',
+              name: getName(specifier.exported),
+              source,
+              imported: getName(specifier.local)
+            })
+            let { exported, local } = specifier
+            if (local.type === 'Identifier' && local.name === '__proto__') {
+              local = { type: 'Literal', value: '__proto__' }
             }
-          } else {
-            for (const specifier of node.specifiers) {
-              let { exported, local } = specifier
-              if (local.type === 'Identifier' && local.name === '__proto__') {
-                local = { type: 'Literal', value: '__proto__' }
-              }
-              const memberExpression: MemberExpression = {
+            const memberExpression: MemberExpression = copyPosition(
+              {
                 type: 'MemberExpression',
                 computed: local.type === 'Literal',
                 optional: false,
-                object: {
-                  type: 'MemberExpression',
-                  computed: true,
-                  optional: false,
-                  object: { type: 'Identifier', name: '_imports' },
-                  property: { type: 'Literal', value: importExpressions.length }
-                },
+                object: copyPosition(
+                  {
+                    type: 'MemberExpression',
+                    computed: true,
+                    optional: false,
+                    object: copyPosition({ type: 'Identifier', name: importsName }, specifier),
+                    property: { type: 'Literal', value: importExpressions.length }
+                  },
+                  specifier
+                ),
                 property: local
-              }
-              exports.push(createProperty(exported, memberExpression))
-              toPatch.push(memberExpression)
-            }
-            importAssignments.push(null)
-            importExpressions.push(esmDeclarationToExpression(node, importName))
+              },
+              specifier
+            )
+            exports.push(
+              copyPosition(createProperty(exported, memberExpression, liveBindings), specifier)
+            )
+            toPatch.push(memberExpression)
           }
-          this.remove()
-          return
+          importAssignments.push(null)
+          importExpressions.push(importDeclaration(node, requireName ?? getImportName(source)))
+        }
+        continue
 
-        case 'ExportAllDeclaration': {
-          const memberExpression: MemberExpression = {
+      case 'ExportAllDeclaration': {
+        const source = String(node.source.value)
+        staticImports.push({ source, attributes: getAttributes(node.attributes), names: ['*'] })
+        exportInfos.push(
+          node.exported
+            ? { kind: 're-export', name: getName(node.exported), source, imported: '*' }
+            : { kind: 'star', source }
+        )
+        const memberExpression: MemberExpression = copyPosition(
+          {
             type: 'MemberExpression',
             computed: true,
             optional: false,
-            object: { type: 'Identifier', name: '_imports' },
+            object: copyPosition({ type: 'Identifier', name: importsName }, node),
             property: { type: 'Literal', value: importExpressions.length }
-          }
-          const property: Property | SpreadElement = node.exported
+          },
+          node
+        )
+        const property: Property | SpreadElement = copyPosition(
+          node.exported
             ? createProperty(node.exported, memberExpression)
-            : { type: 'SpreadElement', argument: memberExpression }
-          const esmExpression = esmDeclarationToExpression(node, importName)
-          exports.push(property)
-          toPatch.push(property)
-          importAssignments.push(null)
-          importExpressions.push(
-            node.exported
-              ? esmExpression
-              : {
-                  type: 'CallExpression',
-                  optional: false,
-                  callee: {
-                    type: 'MemberExpression',
-                    object: esmExpression,
-                    property: { type: 'Identifier', name: 'then' },
+            : { type: 'SpreadElement', argument: memberExpression },
+          node
+        )
+        const esmExpression = importDeclaration(node, requireName ?? getImportName(source))
+        exports.push(property)
+        toPatch.push(property)
+        importAssignments.push(null)
+        if (node.exported) {
+          importExpressions.push(esmExpression)
+        } else {
+          const omitDefault: ArrowFunctionExpression = {
+            type: 'ArrowFunctionExpression',
+            expression: true,
+            params: [
+              {
+                type: 'ObjectPattern',
+                properties: [
+                  {
+                    type: 'Property',
+                    method: false,
+                    shorthand: false,
                     computed: false,
-                    optional: false
+                    kind: 'init',
+                    key: { type: 'Identifier', name: 'default' },
+                    value: { type: 'Identifier', name: ignoredName }
                   },
-                  arguments: [
-                    {
-                      type: 'ArrowFunctionExpression',
-                      expression: true,
-                      params: [
-                        {
-                          type: 'ObjectPattern',
-                          properties: [
-                            {
-                              type: 'Property',
-                              method: false,
-                              shorthand: false,
-                              computed: false,
-                              kind: 'init',
-                              key: { type: 'Identifier', name: 'default' },
-                              value: { type: 'Identifier', name: '_' }
-                            },
-                            { type: 'RestElement', argument: { type: 'Identifier', name: 'm' } }
-                          ]
-                        }
-                      ],
-                      body: { type: 'Identifier', name: 'm' }
-                    }
-                  ]
-                }
+                  {
+                    type: 'RestElement',
+                    argument: { type: 'Identifier', name: moduleName }
+                  }
+                ]
+              }
+            ],
+            body: { type: 'Identifier', name: moduleName }
+          }
+          importExpressions.push(
+            copyPosition<CallExpression>(
+              requireName
+                ? {
+                    type: 'CallExpression',
+                    optional: false,
+                    callee: omitDefault,
+                    arguments: [esmExpression]
+                  }
+                : {
+                    type: 'CallExpression',
+                    optional: false,
+                    callee: {
+                      type: 'MemberExpression',
+                      object: esmExpression,
+                      property: { type: 'Identifier', name: 'then' },
+                      computed: false,
+                      optional: false
+                    },
+                    arguments: [omitDefault]
+                  },
+              node
+            )
           )
-
-          this.remove()
         }
+
+        continue
       }
+
+      default:
+        body.push(node)
     }
-  })
+  }
 
-  if (importExpressions.length) {
-    let importExpression: CallExpression | ImportExpression
-    let importAssignment: null | Pattern
+  ast.body = body
 
-    if (importExpressions.length === 1) {
-      importExpression = importExpressions[0]
-      importAssignment = importAssignments[0]
+  const header: Statement[] = [
+    directive ?? {
+      type: 'ExpressionStatement',
+      expression: { type: 'Literal', value: 'use strict' }
+    }
+  ]
+  const exportProperties = exports.filter((property) => property.type === 'Property')
 
-      for (const node of toPatch) {
-        singularImport(node)
-      }
-    } else {
-      importExpression = {
+  // Exports are defined before anything else, so they can be observed before the module is fully
+  // evaluated.
+  if (exportsName && exportProperties.length) {
+    header.push({
+      type: 'ExpressionStatement',
+      expression: {
         type: 'CallExpression',
         optional: false,
         callee: {
           type: 'MemberExpression',
           computed: false,
           optional: false,
-          object: { type: 'Identifier', name: 'Promise' },
-          property: { type: 'Identifier', name: 'all' }
+          object: { type: 'Identifier', name: 'Object' },
+          property: { type: 'Identifier', name: 'defineProperties' }
         },
-        arguments: [{ type: 'ArrayExpression', elements: importExpressions }]
+        arguments: [
+          createReference(exportsName),
+          {
+            type: 'ObjectExpression',
+            properties: exportProperties.map(createExportDescriptor)
+          }
+        ]
+      }
+    })
+  }
+
+  if (importExpressions.length) {
+    let importsInit: Expression
+    const resolveImport: (node: CallExpression | ImportExpression) => Expression = requireName
+      ? (node) => node
+      : createAwaitExpression
+    let importAssignment: null | Pattern
+
+    // The combined import statement is attributed to the first import declaration.
+    const [firstImportExpression] = importExpressions
+
+    if (importExpressions.length === 1) {
+      importsInit = resolveImport(firstImportExpression)
+      importAssignment = importAssignments[0]
+
+      for (const node of toPatch) {
+        singularImport(node)
       }
+    } else {
+      // Array elements are evaluated in order, so each import is resolved before the next one.
+      importsInit =
+        requireName || importOrder === 'sequential'
+          ? copyPosition<ArrayExpression>(
+              {
+                type: 'ArrayExpression',
+                elements: importExpressions.map((node) => resolveImport(node))
+              },
+              firstImportExpression
+            )
+          : createAwaitExpression(
+              copyPosition(
+                {
+                  type: 'CallExpression',
+                  optional: false,
+                  callee: {
+                    type: 'MemberExpression',
+                    computed: false,
+                    optional: false,
+                    object: { type: 'Identifier', name: 'Promise' },
+                    property: { type: 'Identifier', name: 'all' }
+                  },
+                  arguments: [{ type: 'ArrayExpression', elements: importExpressions }]
+                },
+                firstImportExpression
+              )
+            )
       while (importAssignments.length && !importAssignments.at(-1)) {
         importAssignments.pop()
       }
-      importAssignment = { type: 'ArrayPattern', elements: importAssignments }
+      importAssignment = importAssignments.length
+        ? { type: 'ArrayPattern', elements: importAssignments }
+        : null
     }
 
     if (toPatch.length) {
       const declarations: VariableDeclarator[] = [
-        {
-          type: 'VariableDeclarator',
-          id: { type: 'Identifier', name: '_imports' },
-          init: {
-            type: 'AwaitExpression',
-            argument: importExpression
-          }
-        }
+        copyPosition(
+          {
+            type: 'VariableDeclarator',
+            id: { type: 'Identifier', name: importsName },
+            init: importsInit
+          },
+          firstImportExpression
+        )
       ]
       if (importAssignment) {
         declarations.push({
           type: 'VariableDeclarator',
           id: importAssignment,
-          init: { type: 'Identifier', name: '_imports' }
+          init: { type: 'Identifier', name: importsName }
         })
       }
-      ast.body.unshift({
-        type: 'VariableDeclaration',
-        kind: 'const',
-        declarations
-      })
+      header.push(
+        copyPosition(
+          {
+            type: 'VariableDeclaration',
+            kind: 'const',
+            declarations
+          },
+          firstImportExpression
+        )
+      )
     } else {
-      const awaitExpression: AwaitExpression = {
-        type: 'AwaitExpression',
-        argument: importExpression
-      }
+      header.push(
+        copyPosition(
+          importAssignment
+            ? {
+                type: 'VariableDeclaration',
+                kind: 'const',
+                declarations: [
+                  copyPosition(
+                    {
+                      type: 'VariableDeclarator',
+                      id: importAssignment,
+                      init: importsInit
+                    },
+                    firstImportExpression
+                  )
+                ]
+              }
+            : {
+                type: 'ExpressionStatement',
+                expression: importsInit
+              },
+          firstImportExpression
+        )
+      )
+    }
+  }
 
-      ast.body.unshift(
-        importAssignment
-          ? {
-              type: 'VariableDeclaration',
-              kind: 'const',
-              declarations: [
-                {
-                  type: 'VariableDeclarator',
-                  id: importAssignment,
-                  init: awaitExpression
-                }
-              ]
-            }
-          : {
-              type: 'ExpressionStatement',
-              expression: awaitExpression
+  if (deferName) {
+    header.push(createDeferFunction(deferName), {
+      type: 'VariableDeclaration',
+      kind: 'const',
+      declarations: deferredImports
+    })
+  }
+
+  const stars = exports.filter((property) => property.type === 'SpreadElement')
+  const starExportName =
+    stars.length > 0
+      ? uniqueName(names, prefix == null ? '_namespace' : `${prefix}namespace`)
+      : undefined
+
+  let namespace: Expression | undefined
+
+  if (exportsName) {
+    if (starExportName) {
+      header.push(
+        createStarExportFunction(starExportName, false),
+        copyPosition(
+          {
+            type: 'ExpressionStatement',
+            expression: {
+              type: 'CallExpression',
+              optional: false,
+              callee: { type: 'Identifier', name: starExportName },
+              arguments: [createReference(exportsName), ...stars.map((star) => star.argument)]
             }
+          },
+          stars[0]
+        )
       )
     }
+  } else {
+    exportProperties.sort(compareExportProperties)
+    namespace = {
+      type: 'CallExpression',
+      optional: false,
+      callee: createReference('Object.freeze'),
+      arguments: [createNamespaceObject(exportProperties)]
+    }
+
+    if (starExportName) {
+      namespace = {
+        type: 'CallExpression',
+        optional: false,
+        callee: { type: 'Identifier', name: starExportName },
+        arguments: [
+          {
+            type: 'ObjectExpression',
+            properties: [
+              {
+                type: 'Property',
+                computed: false,
+                method: false,
+                shorthand: false,
+                kind: 'init',
+                key: { type: 'Identifier', name: '__proto__' },
+                value: { type: 'Literal', value: null }
+              },
+              ...exportProperties
+            ]
+          },
+          ...stars.map((star) => star.argument)
+        ]
+      }
+      ast.body.push(createStarExportFunction(starExportName, true))
+    }
   }
 
-  ast.body.unshift(
-    directive ?? {
-      type: 'ExpressionStatement',
-      expression: { type: 'Literal', value: 'use strict' }
+  if (repl) {
+    const result: Property[] = [
+      createProperty(
+        { type: 'Identifier', name: 'declarations' },
+        {
+          type: 'ObjectExpression',
+          properties: [
+            {
+              type: 'Property',
+              computed: false,
+              method: false,
+              shorthand: false,
+              kind: 'init',
+              key: { type: 'Identifier', name: '__proto__' },
+              value: { type: 'Literal', value: null }
+            },
+            ...replDeclarations
+          ]
+        }
+      )
+    ]
+
+    if (namespace) {
+      result.push(createProperty({ type: 'Identifier', name: 'exports' }, namespace))
     }
-  )
 
-  ast.body.push({
-    type: 'ReturnStatement',
-    argument: { type: 'ObjectExpression', properties: exports }
-  })
+    // The completion value is the value of the last top-level expression statement.
+    if (completion) {
+      const valueName = uniqueName(names, prefix == null ? '_value' : `${prefix}value`)
+      header.push({
+        type: 'VariableDeclaration',
+        kind: 'let',
+        declarations: [{ type: 'VariableDeclarator', id: { type: 'Identifier', name: valueName } }]
+      })
+      completion.expression = copyPosition(
+        {
+          type: 'AssignmentExpression',
+          operator: '=',
+          left: { type: 'Identifier', name: valueName },
+          right: completion.expression
+        },
+        completion.expression
+      )
+      result.push(
+        createProperty(
+          { type: 'Identifier', name: 'value' },
+          { type: 'Identifier', name: valueName }
+        )
+      )
+    }
+
+    namespace = { type: 'ObjectExpression', properties: result }
+  }
+
+  if (namespace) {
+    ast.body.push({ type: 'ReturnStatement', argument: namespace })
+  }
+
+  ast.body.unshift(...header)
+
+  return {
+    imports: staticImports,
+    exports: exportInfos,
+    dynamicImports,
+    importMeta,
+    async: topLevelAwait || (!requireName && importExpressions.length > 0),
+    diagnostics
+  }
+}
+
+export namespace moduleToFunctionExpression {
+  export interface Options extends moduleToFunction.Options {
+    /**
+     * Additional parameter names of the function. These follow `importName`, `globalsName`,
+     * `requireName`, `metaName`, and `traceName`, if those are specified.
+     */
+    parameters?: string[]
+
+    /**
+     * If specified, the result contains a `//# sourceURL` comment to append to the generated code,
+     * so tools such as debuggers and stack traces show the evaluated code using this URL.
+     */
+    sourceURL?: string
+  }
+
+  /**
+   * Information about the module that was transformed, and the function that was created.
+   */
+  export interface Result extends moduleToFunction.Result {
+    /**
+     * A function expression whose body is the transformed module. The function is only async if
+     * the body uses `await`.
+     */
+    function: FunctionExpression
+
+    /**
+     * A script whose only statement is the function expression, so evaluating it returns the
+     * function.
+     */
+    program: Program
+
+    /**
+     * A `//# sourceURL` line comment, if the `sourceURL` option is specified. This isn’t part of
+     * the AST, because code generators such as `astring` insert a space after `//`, so engines
+     * wouldn’t recognize it. Append it to the generated code on a new line instead.
+     */
+    sourceURLComment?: string
+  }
+}
+
+/**
+ * Convert an ESM program into a function expression, without modifying the program.
+ *
+ * @param ast
+ *   The AST to process. This isn’t modified.
+ * @param options
+ *   Additional options.
+ * @returns
+ *   Information about the imports and exports of the module, and the created function.
+ */
+export function moduleToFunctionExpression(
+  ast: moduleToFunction.File | Program,
+  { parameters = [], sourceURL, ...options }: moduleToFunctionExpression.Options = {}
+): moduleToFunctionExpression.Result {
+  const program = structuredClone(ast.type === 'File' ? ast.program : ast)
+  const result = moduleToFunction(program, options)
+  const parameterNames = [
+    options.importName,
+    options.globalsName,
+    options.requireName,
+    options.metaName,
+    options.traceName,
+    ...parameters
+  ].filter((name) => name != null)
+  const fn: FunctionExpression = {
+    type: 'FunctionExpression',
+    async: result.async,
+    generator: false,
+    params: parameterNames.map((name) => ({ type: 'Identifier', name })),
+    body: { type: 'BlockStatement', body: program.body as Statement[] }
+  }
+  const script: Program = {
+    type: 'Program',
+    sourceType: 'script',
+    body: [{ type: 'ExpressionStatement', expression: fn }]
+  }
+
+  const expressionResult: moduleToFunctionExpression.Result = {
+    ...result,
+    function: fn,
+    program: script
+  }
+
+  if (sourceURL != null) {
+    expressionResult.sourceURLComment = `//# sourceURL=${sourceURL}`
+  }
+
+  return expressionResult
+}
+
+export namespace bundleModules {
+  /**
+   * Options for bundling modules. These are passed to {@link moduleToFunction} for every module,
+   * except that `exportsName` and `repl` only apply to the entry module.
+   */
+  export type Options = Omit<moduleToFunction.Options, 'externals' | 'requireName'>
+
+  /**
+   * Information about the bundled modules.
+   */
+  export interface Result extends moduleToFunction.Result {
+    /**
+     * The specifiers of the modules which were inlined, in the order in which they were found.
+     */
+    modules: string[]
+  }
+}
+
+/**
+ * Inline the static dependency graph of an ESM program into a single function body.
+ *
+ * Every module in `modules` which is imported by the entry module, either directly or through
+ * other modules, becomes a factory in the function body. A factory evaluates its module the first
+ * time it’s called. Imports of bundled modules call the factory directly. Other imports use the
+ * import name if it’s specified, or native import expressions otherwise.
+ *
+ * @param ast
+ *   The AST of the entry module. This is modified like by {@link moduleToFunction}.
+ * @param modules
+ *   A map of module specifiers to module ASTs. Specifiers are matched after they have been resolved
+ *   using the `resolve` option. These ASTs aren’t modified.
+ * @param options
+ *   Additional options.
+ * @returns
+ *   Information about the bundled modules. Imports and dynamic imports only include modules which
+ *   aren’t bundled.
+ */
+export function bundleModules(
+  ast: moduleToFunction.File | Program,
+  modules: Record<string, moduleToFunction.File | Program>,
+  { exportsName, importName, prefix, repl, ...options }: bundleModules.Options = {}
+): bundleModules.Result {
+  if (ast.type === 'File') {
+    ast = ast.program
+  }
+
+  const moduleMap = new Map(Object.entries(modules))
+  const names = new Set(importName == null ? [] : [importName])
+  for (const program of [ast, ...moduleMap.values()]) {
+    for (const name of collectIdentifierNames(
+      program.type === 'File' ? program.program : program
+    )) {
+      names.add(name)
+    }
+  }
+
+  const loaderName = uniqueName(names, prefix == null ? '_load' : `${prefix}load`)
+  const moduleOptions: moduleToFunction.Options = {
+    ...options,
+    // Modules which aren’t bundled are imported natively if there is no import name.
+    externals: importName == null ? (specifier) => !moduleMap.has(specifier) : undefined,
+    importName: loaderName,
+    prefix
+  }
+  const entry = moduleToFunction(ast, { ...moduleOptions, exportsName, repl })
+  const programs = new Map<string, Program>()
+  const results = new Map<string, moduleToFunction.Result>()
+  const queue = [entry]
+  const result: bundleModules.Result = {
+    ...entry,
+    imports: [],
+    dynamicImports: [],
+    diagnostics: [],
+    modules: []
+  }
+
+  for (const moduleResult of queue) {
+    result.importMeta ||= moduleResult.importMeta
+    result.diagnostics.push(...moduleResult.diagnostics)
+    for (const specifier of [
+      ...moduleResult.imports.map((staticImport) => staticImport.source),
+      ...moduleResult.dynamicImports
+    ]) {
+      const module = moduleMap.get(specifier)
+      if (module && !results.has(specifier)) {
+        const program = structuredClone(module.type === 'File' ? module.program : module)
+        const dependency = moduleToFunction(program, moduleOptions)
+        programs.set(specifier, program)
+        results.set(specifier, dependency)
+        result.modules.push(specifier)
+        queue.push(dependency)
+      }
+    }
+
+    result.imports.push(
+      ...moduleResult.imports.filter((staticImport) => !results.has(staticImport.source))
+    )
+    result.dynamicImports.push(
+      ...moduleResult.dynamicImports.filter((specifier) => !results.has(specifier))
+    )
+  }
+
+  /**
+   * Check that a bundled module doesn’t statically import itself through its dependencies. A
+   * factory that waits for its own result never finishes.
+   *
+   * @param moduleResult
+   *   The result of the module to check.
+   * @param path
+   *   The specifiers of the modules which import this module.
+   */
+  function checkCycles(moduleResult: moduleToFunction.Result, path: string[]): undefined {
+    for (const { source } of moduleResult.imports) {
+      const dependency = results.get(source)
+      if (!dependency) {
+        continue
+      }
+
+      if (path.includes(source)) {
+        throw new Error(
+          `Circular imports can’t be bundled: ${[...path.slice(path.indexOf(source)), source].join(' -> ')}`
+        )
+      }
+
+      checkCycles(dependency, [...path, source])
+    }
+  }
+
+  checkCycles(entry, [])
+
+  for (const program of [ast, ...programs.values()]) {
+    for (const name of collectIdentifierNames(program)) {
+      names.add(name)
+    }
+  }
+
+  const onceName = uniqueName(names, prefix == null ? '_once' : `${prefix}once`)
+  const factories = new Map<string, string>()
+  for (const specifier of programs.keys()) {
+    factories.set(
+      specifier,
+      uniqueName(names, prefix == null ? '_dependency' : `${prefix}dependency`)
+    )
+  }
+
+  linkModule(ast, loaderName, factories, importName)
+  const declarations: Statement[] = []
+  for (const [specifier, program] of programs) {
+    linkModule(program, loaderName, factories, importName)
+    declarations.push({
+      type: 'VariableDeclaration',
+      kind: 'const',
+      declarations: [
+        {
+          type: 'VariableDeclarator',
+          id: { type: 'Identifier', name: factories.get(specifier)! },
+          init: {
+            type: 'CallExpression',
+            optional: false,
+            callee: { type: 'Identifier', name: onceName },
+            arguments: [
+              {
+                type: 'ArrowFunctionExpression',
+                async: true,
+                expression: false,
+                params: [],
+                // The directive is dropped, because the bundle is already strict.
+                body: { type: 'BlockStatement', body: program.body.slice(1) as Statement[] }
+              }
+            ]
+          }
+        }
+      ]
+    })
+  }
+
+  if (declarations.length) {
+    // The first statement is always the directive.
+    ast.body.splice(1, 0, createOnceFunction(onceName), ...declarations)
+  }
+
+  return result
 }
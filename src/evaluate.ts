@@ -0,0 +1,285 @@
+import { dirname } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+import { parse } from 'acorn'
+import { generate } from 'astring'
+import { type Program } from 'estree'
+
+import { type Import, moduleToFunction } from './estree-util-module-to-function.js'
+
+type ModuleFunction = (importFunction: Import, exports: Record<string, unknown>) => Promise<void>
+
+const AsyncFunction = Object.getPrototypeOf(async () => null).constructor as new (
+  ...parameters: string[]
+) => ModuleFunction
+
+const importName = '__import__'
+const exportsName = '__exports__'
+
+/**
+ * The internal state of a module in a module graph.
+ */
+interface ModuleRecord {
+  /**
+   * The resolved URL of the module.
+   */
+  url: string
+
+  /**
+   * The module namespace object. For modules loaded from source, this is defined before the module
+   * is evaluated, so circular imports can access it.
+   */
+  namespace?: Record<string, unknown>
+
+  /**
+   * A promise that resolves to the module namespace object once the module has been evaluated.
+   */
+  promise: Promise<Record<string, unknown>>
+}
+
+/**
+ * Resolve a module specifier using URL semantics.
+ *
+ * Relative and absolute paths are resolved relative to the parent URL. All other specifiers are
+ * returned as-is.
+ *
+ * @param specifier
+ *   The module specifier to resolve.
+ * @param parentUrl
+ *   The URL of the importing module.
+ * @returns
+ *   The resolved URL.
+ */
+function defaultResolve(specifier: string, parentUrl?: string): string {
+  if (/^\.{0,2}\//.test(specifier)) {
+    return new URL(specifier, parentUrl).href
+  }
+
+  return specifier
+}
+
+/**
+ * Create a loader which loads modules from an in-memory file map.
+ *
+ * @param files
+ *   An object which maps URLs to module sources.
+ * @returns
+ *   A loader which loads modules from the file map.
+ */
+function createFilesLoader(files: Record<string, string>): createModuleGraph.Loader {
+  const map = new Map(Object.entries(files))
+
+  return {
+    load: (url) => map.get(url)
+  }
+}
+
+/**
+ * Create the `import.meta` object for a module.
+ *
+ * @param url
+ *   The URL of the module.
+ * @param resolve
+ *   The function to resolve module specifiers.
+ * @returns
+ *   The `import.meta` object of the module.
+ */
+function createImportMeta(
+  url: string,
+  resolve: (specifier: string, parentUrl?: string) => string
+): Partial<ImportMeta> {
+  const meta: Partial<ImportMeta> = {
+    url,
+    resolve: (specifier) => resolve(specifier, url)
+  }
+
+  if (url.startsWith('file:')) {
+    meta.filename = fileURLToPath(url)
+    meta.dirname = dirname(meta.filename)
+  }
+
+  return meta
+}
+
+export namespace createModuleGraph {
+  /**
+   * A pair of functions to resolve and load module sources.
+   */
+  export interface Loader {
+    /**
+     * Resolve a module specifier to a URL.
+     *
+     * By default relative and absolute paths are resolved relative to the parent URL, and other
+     * specifiers are returned as-is.
+     *
+     * @param specifier
+     *   The module specifier to resolve.
+     * @param parentUrl
+     *   The URL of the importing module, or `undefined` for the entry module.
+     * @returns
+     *   The resolved URL.
+     */
+    resolve?: (specifier: string, parentUrl?: string) => string
+
+    /**
+     * Load the source code of a module.
+     *
+     * @param url
+     *   The resolved URL of the module.
+     * @returns
+     *   The source code of the module. If `undefined` is returned, the module is imported using a
+     *   native dynamic import instead.
+     */
+    load: (url: string) => PromiseLike<string | undefined> | string | undefined
+  }
+
+  /**
+   * A function which imports a module from the module graph.
+   *
+   * @param specifier
+   *   The module specifier to import.
+   * @param options
+   *   Import options. These are only used for modules that are imported natively.
+   * @returns
+   *   A promise that resolves to the module namespace object.
+   */
+  export type ModuleGraph = (
+    specifier: string,
+    options?: ImportCallOptions
+  ) => Promise<Record<string, unknown>>
+}
+
+/**
+ * Create a module graph which evaluates ECMAScript modules using {@link moduleToFunction}.
+ *
+ * Each module is only evaluated once. Every module gets its own `import.meta`. Circular imports
+ * resolve to the module namespace object before the module has been fully evaluated. Imported
+ * bindings are read when they’re used, so modules in a cycle can import each other’s bindings.
+ *
+ * @param loader
+ *   A loader to resolve and load modules, or an object which maps URLs to module sources.
+ * @returns
+ *   A function to import a module from the module graph.
+ */
+export function createModuleGraph(
+  loader: createModuleGraph.Loader | Record<string, string>
+): createModuleGraph.ModuleGraph {
+  const { load, resolve = defaultResolve } =
+    typeof loader.load === 'function'
+      ? (loader as createModuleGraph.Loader)
+      : createFilesLoader(loader as Record<string, string>)
+  const records = new Map<string, ModuleRecord>()
+  const waiting = new Map<ModuleRecord, Set<ModuleRecord>>()
+
+  /**
+   * Check if a module is waiting for another module to be evaluated, either directly or through
+   * its dependencies.
+   *
+   * @param record
+   *   The module that may be waiting.
+   * @param dependency
+   *   The module that may be waited for.
+   * @param seen
+   *   Modules that have already been checked.
+   * @returns
+   *   Whether `record` is waiting for `dependency`.
+   */
+  function isWaitingFor(
+    record: ModuleRecord,
+    dependency: ModuleRecord,
+    seen = new Set<ModuleRecord>()
+  ): boolean {
+    if (record === dependency) {
+      return true
+    }
+
+    seen.add(record)
+    for (const next of waiting.get(record)!) {
+      if (!seen.has(next) && isWaitingFor(next, dependency, seen)) {
+        return true
+      }
+    }
+
+    return false
+  }
+
+  /**
+   * Load and evaluate a module.
+   *
+   * @param record
+   *   The module to evaluate.
+   * @param importFunction
+   *   The import function to pass to the module.
+   * @param options
+   *   Import options for modules that are imported natively.
+   * @returns
+   *   The module namespace object.
+   */
+  async function evaluate(
+    record: ModuleRecord,
+    importFunction: Import,
+    options: ImportCallOptions | undefined
+  ): Promise<Record<string, unknown>> {
+    const source = await load(record.url)
+    if (source == null) {
+      record.namespace = (await import(record.url, options)) as Record<string, unknown>
+      return record.namespace
+    }
+
+    const ast = parse(source, { ecmaVersion: 'latest', sourceType: 'module' }) as Program
+    moduleToFunction(ast, { exportsName, importName, liveImports: true })
+    const fn = new AsyncFunction(
+      importName,
+      exportsName,
+      `${generate(ast)}\n//# sourceURL=${record.url}`
+    )
+    const namespace: Record<string, unknown> = Object.create(null, {
+      [Symbol.toStringTag]: { value: 'Module' }
+    })
+    record.namespace = namespace
+    await fn(importFunction, namespace)
+    return namespace
+  }
+
+  /**
+   * Get the module record for a URL, and start evaluating it if this hasn’t happened yet.
+   *
+   * @param url
+   *   The resolved URL of the module.
+   * @param options
+   *   Import options for modules that are imported natively.
+   * @returns
+   *   The module record.
+   */
+  function getRecord(url: string, options: ImportCallOptions | undefined): ModuleRecord {
+    const existing = records.get(url)
+    if (existing) {
+      return existing
+    }
+
+    const record = { url } as ModuleRecord
+    const dependencies = new Set<ModuleRecord>()
+    const importFunction: Import = async (specifier, importOptions) => {
+      const dependency = getRecord(resolve(specifier, url), importOptions)
+      // Only modules loaded from source can wait for other modules, so the namespace is defined.
+      if (isWaitingFor(dependency, record)) {
+        return dependency.namespace!
+      }
+
+      dependencies.add(dependency)
+      try {
+        return await dependency.promise
+      } finally {
+        dependencies.delete(dependency)
+      }
+    }
+    importFunction.meta = createImportMeta(url, resolve)
+
+    records.set(url, record)
+    waiting.set(record, dependencies)
+    record.promise = evaluate(record, importFunction, options)
+    return record
+  }
+
+  return async (specifier, options) => getRecord(resolve(specifier), options).promise
+}
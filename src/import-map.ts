@@ -0,0 +1,234 @@
+import { type Import } from './estree-util-module-to-function.js'
+
+/**
+ * Parse a specifier as a URL if it’s a URL or a relative or absolute path.
+ *
+ * @param specifier
+ *   The specifier to parse.
+ * @param baseUrl
+ *   The URL to resolve relative specifiers against.
+ * @returns
+ *   The parsed URL, or `undefined` if the specifier is a bare specifier.
+ */
+function parseUrlLikeSpecifier(specifier: string, baseUrl: string): undefined | URL {
+  if (/^\.{0,2}\//.test(specifier)) {
+    return new URL(specifier, baseUrl)
+  }
+
+  try {
+    return new URL(specifier)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * A specifier map whose keys and addresses are resolved against the base URL of the import map.
+ * The entries are sorted so more specific keys come first.
+ */
+type NormalizedSpecifierMap = [key: string, address: string][]
+
+/**
+ * Resolve the keys and addresses of a specifier map against the base URL of the import map.
+ *
+ * @param specifierMap
+ *   The specifier map to normalize.
+ * @param baseUrl
+ *   The base URL of the import map.
+ * @returns
+ *   The normalized specifier map.
+ */
+function normalizeSpecifierMap(
+  specifierMap: Record<string, string>,
+  baseUrl: string
+): NormalizedSpecifierMap {
+  // Keys which look like URLs are matched as URLs. Longer keys are more specific, so they take
+  // precedence.
+  return Object.entries(specifierMap)
+    .map(([key, value]): [string, string] => [
+      parseUrlLikeSpecifier(key, baseUrl)?.href ?? key,
+      new URL(value, baseUrl).href
+    ])
+    .sort(([a], [b]) => (a < b ? 1 : -1))
+}
+
+/**
+ * Resolve a specifier using a specifier map of an import map.
+ *
+ * @param specifier
+ *   The normalized specifier to resolve.
+ * @param specifierMap
+ *   The normalized specifier map to resolve the specifier with.
+ * @returns
+ *   The resolved URL, or `undefined` if the specifier map doesn’t match the specifier.
+ */
+function resolveImportsMatch(
+  specifier: string,
+  specifierMap: NormalizedSpecifierMap
+): string | undefined {
+  for (const [key, address] of specifierMap) {
+    if (key === specifier) {
+      return address
+    }
+
+    if (key.endsWith('/') && specifier.startsWith(key)) {
+      return new URL(specifier.slice(key.length), address).href
+    }
+  }
+}
+
+export namespace createImport {
+  /**
+   * A WHATWG import map.
+   *
+   * @see https://html.spec.whatwg.org/multipage/webappapis.html#import-maps
+   */
+  export interface ImportMap {
+    /**
+     * A map of specifiers to URLs.
+     */
+    imports?: Record<string, string>
+
+    /**
+     * A map of URL prefixes to specifier maps. A specifier map only applies to modules whose URL
+     * starts with its prefix.
+     */
+    scopes?: Record<string, Record<string, string>>
+  }
+
+  /**
+   * A module namespace object, or a function which loads it.
+   */
+  export type Module =
+    | ((url: string) => PromiseLike<Record<string, unknown>> | Record<string, unknown>)
+    | Record<string, unknown>
+
+  /**
+   * Options for creating an import function.
+   */
+  export interface Options {
+    /**
+     * The import map used to resolve specifiers.
+     */
+    importMap?: ImportMap
+
+    /**
+     * The base URL of the import map, such as the URL of the document which contains it. Addresses,
+     * specifier keys which look like URLs, and scope prefixes are resolved against this URL.
+     *
+     * By default this is the URL of the importing module.
+     */
+    importMapUrl?: string
+
+    /**
+     * An object which maps resolved URLs to modules.
+     *
+     * Modules whose URL ends with `.json` are JSON modules. These must be imported using
+     * `with: { type: 'json' }`.
+     */
+    modules: Record<string, Module>
+
+    /**
+     * The URL of the importing module. This is used to resolve relative specifiers, to match
+     * scopes of the import map, and as `import.meta.url`.
+     */
+    url: string
+  }
+}
+
+/**
+ * Create an {@link Import} function which resolves specifiers using an import map.
+ *
+ * Each module is only loaded once. The function has an `import.meta` object, whose `url` is the URL
+ * of the importing module, and whose `resolve` function resolves specifiers using the import map.
+ *
+ * @param options
+ *   The import map, the available modules, and the URL of the importing module.
+ * @returns
+ *   A function which can be passed to a function body created using `moduleToFunction()`.
+ */
+export function createImport({
+  importMap = {},
+  url,
+  importMapUrl = url,
+  modules
+}: createImport.Options): Import {
+  const { imports = {}, scopes = {} } = importMap
+  const moduleMap = new Map(Object.entries(modules))
+  const cache = new Map<string, Promise<Record<string, unknown>>>()
+  const normalizedImports = normalizeSpecifierMap(imports, importMapUrl)
+  // Scope prefixes are relative to the import map. The most specific scope is the longest, so it is
+  // checked first.
+  const scopeMaps = new Map(
+    Object.entries(scopes).map(([prefix, specifierMap]) => [
+      new URL(prefix, importMapUrl).href,
+      normalizeSpecifierMap(specifierMap, importMapUrl)
+    ])
+  )
+  const scopePrefixes = [...scopeMaps.keys()].sort().reverse()
+
+  /**
+   * Resolve a specifier using the import map.
+   *
+   * @param specifier
+   *   The specifier to resolve.
+   * @returns
+   *   The resolved URL.
+   */
+  function resolve(specifier: string): string {
+    const asUrl = parseUrlLikeSpecifier(specifier, url)
+    const normalizedSpecifier = asUrl?.href ?? specifier
+
+    for (const prefix of scopePrefixes) {
+      if (prefix === url || (prefix.endsWith('/') && url.startsWith(prefix))) {
+        const scopedResult = resolveImportsMatch(normalizedSpecifier, scopeMaps.get(prefix)!)
+        if (scopedResult) {
+          return scopedResult
+        }
+      }
+    }
+
+    const result = resolveImportsMatch(normalizedSpecifier, normalizedImports) ?? asUrl?.href
+    if (result == null) {
+      throw new TypeError(
+        `Failed to resolve module specifier '${specifier}'. Relative references must start with either '/', './', or '../'.`
+      )
+    }
+
+    return result
+  }
+
+  const importFunction: Import = async (specifier, options) => {
+    const resolved = resolve(specifier)
+    const type = (options?.with as Record<string, string> | undefined)?.type
+    const isJson = new URL(resolved).pathname.endsWith('.json')
+
+    if (type != null && type !== 'json') {
+      throw new TypeError(`Module '${resolved}' has an unsupported type '${type}'`)
+    }
+
+    if (isJson !== (type === 'json')) {
+      throw new TypeError(
+        isJson
+          ? `Module '${resolved}' is a JSON module, but it was imported without type 'json'`
+          : `Module '${resolved}' is not a JSON module, but it was imported with type 'json'`
+      )
+    }
+
+    let promise = cache.get(resolved)
+    if (!promise) {
+      const module = moduleMap.get(resolved)
+      if (!module) {
+        throw new TypeError(`Cannot find module '${resolved}'`)
+      }
+
+      promise = Promise.resolve(typeof module === 'function' ? module(resolved) : module)
+      cache.set(resolved, promise)
+    }
+
+    return promise
+  }
+
+  importFunction.meta = { url, resolve }
+  return importFunction
+}
@@ -1,31 +1,1766 @@
-import { parse } from 'acorn'
+import assert from 'node:assert/strict'
+import { spawnSync } from 'node:child_process'
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { test } from 'node:test'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+
+import { parse as parseBabel } from '@babel/parser'
+import { parse as parseTypeScript } from '@typescript-eslint/typescript-estree'
+import { parse, Parser } from 'acorn'
+import importPhases from 'acorn-import-phases'
 import { generate } from 'astring'
-import { type Program } from 'estree'
-import { moduleToFunction } from 'estree-util-module-to-function'
+import { type ExportNamedDeclaration, type Node, type Program } from 'estree'
+import {
+  bundleModules,
+  type Import,
+  moduleToFunction,
+  moduleToFunctionExpression,
+  type Require,
+  type TraceImport
+} from 'estree-util-module-to-function'
+import { createModuleGraph } from 'estree-util-module-to-function/evaluate'
+import { createImport } from 'estree-util-module-to-function/import-map'
+import { createImportTracer } from 'estree-util-module-to-function/trace'
+import { walk } from 'estree-walker'
 import { testFixturesDirectory } from 'snapshot-fixtures'
+import { SourceMapConsumer, SourceMapGenerator } from 'source-map'
+
+const parser = Parser.extend(importPhases())
+
+/**
+ * Parse the input of a fixture. Inputs with a `.ts` extension are parsed as TypeScript.
+ *
+ * @param input
+ *   The input file of the fixture.
+ * @returns
+ *   The program of the fixture.
+ */
+function parseFixture(input: { extname?: string; value: unknown }): Program {
+  const source = String(input.value)
+  if (input.extname === '.ts') {
+    return parseTypeScript(source) as Program
+  }
 
-testFixturesDirectory({
+  return parser.parse(source, { ecmaVersion: 'latest', sourceType: 'module' }) as Program
+}
+
+testFixturesDirectory<moduleToFunction.Options>({
   directory: new URL('../fixtures/', import.meta.url),
   prettier: true,
   write: true,
   tests: {
-    'plain.js'(input) {
-      const ast = parse(String(input), {
-        ecmaVersion: 'latest',
-        sourceType: 'module'
-      }) as Program
-      moduleToFunction(ast)
+    'analysis.json'(input, options) {
+      const ast = parseFixture(input)
+      const result = moduleToFunction(ast, options)
+      return JSON.stringify(result, undefined, 2)
+    },
+
+    'plain.js'(input, options) {
+      const ast = parseFixture(input)
+      moduleToFunction(ast, options)
       return `export default async () => {${generate(ast)}}`
     },
 
-    'named.js'(input) {
+    'named.js'(input, options) {
       const importName = 'customImport'
-      const ast = parse(String(input), {
-        ecmaVersion: 'latest',
-        sourceType: 'module'
-      }) as Program
-      moduleToFunction(ast, { importName })
+      const ast = parseFixture(input)
+      moduleToFunction(ast, { ...options, importName })
       return `/** @param {import('estree-util-module-to-function').Import} ${importName} */\nexport default async (${importName}) => {${generate(ast)}}`
     }
   }
 })
+
+test('createModuleGraph evaluates an in-memory module graph', async () => {
+  const importModule = createModuleGraph({
+    'file:///project/main.js': `
+      import { count, increment } from './counter.js'
+      import { twice } from './lib/twice.js'
+      import { sep } from 'node:path'
+
+      twice()
+      increment()
+      export { sep }
+      export const meta = {
+        url: import.meta.url,
+        filename: import.meta.filename,
+        dirname: import.meta.dirname,
+        resolved: import.meta.resolve('./lib/twice.js')
+      }
+    `,
+    'file:///project/counter.js': `
+      export let count = 0
+      export function increment() {
+        count += 1
+      }
+    `,
+    'file:///project/lib/twice.js': `
+      import { increment } from '../counter.js'
+
+      export function twice() {
+        increment()
+        increment()
+      }
+    `
+  })
+
+  const main = await importModule('file:///project/main.js')
+  const counter = await importModule('file:///project/counter.js')
+
+  assert.equal(main.sep, '/')
+  assert.equal(counter.count, 3)
+  assert.deepEqual(main.meta, {
+    url: 'file:///project/main.js',
+    filename: '/project/main.js',
+    dirname: '/project',
+    resolved: 'file:///project/lib/twice.js'
+  })
+  assert.equal(await importModule('file:///project/main.js'), main)
+})
+
+test('createModuleGraph supports circular imports', async () => {
+  const importModule = createModuleGraph({
+    'file:///a.js': `
+      import * as b from './b.js'
+
+      export const name = 'a'
+      export const getB = () => b
+    `,
+    'file:///b.js': `
+      import * as a from './a.js'
+
+      export function describe() {
+        return {
+          name: a.name,
+          has: 'name' in a,
+          keys: Object.keys(a)
+        }
+      }
+      export const early = ['name' in a, Object.keys(a)]
+    `
+  })
+
+  const a = await importModule('file:///a.js')
+  const b = await importModule('file:///b.js')
+
+  assert.equal((a.getB as () => unknown)(), b)
+  assert.deepEqual((b.describe as () => unknown)(), {
+    name: 'a',
+    has: true,
+    keys: ['name', 'getB']
+  })
+  assert.deepEqual(b.early, [true, ['name', 'getB']])
+})
+
+test('createModuleGraph supports circular imports of bindings', async () => {
+  const importModule = createModuleGraph({
+    'file:///a.js': `
+      import { b } from './b.js'
+
+      export const a = 1
+      export const getB = () => b
+    `,
+    'file:///b.js': `
+      import getA, { a } from './a.js'
+
+      export const b = 2
+      export const c = () => a + b
+      export default getA
+    `
+  })
+
+  const a = await importModule('file:///a.js')
+  const b = await importModule('file:///b.js')
+
+  assert.equal((a.getB as () => unknown)(), 2)
+  assert.equal((b.c as () => unknown)(), 3)
+})
+
+test('createModuleGraph rejects if a specifier can’t be resolved', async () => {
+  const importModule = createModuleGraph({})
+  const promise = importModule('/a.js')
+
+  assert.ok(promise instanceof Promise)
+  await assert.rejects(promise, { code: 'ERR_INVALID_URL' })
+})
+
+test('createModuleGraph excludes ambiguous star exports', async () => {
+  const importModule = createModuleGraph({
+    'file:///main.js': `
+      export * from './a.js'
+      export * from './b.js'
+      export * from './c.js'
+      export const local = 'main'
+    `,
+    'file:///a.js': `
+      export { shared } from './shared.js'
+      export const ambiguous = 'a'
+      export const local = 'a'
+      export const onlyA = 'a'
+    `,
+    'file:///b.js': `
+      export { shared } from './shared.js'
+      export const ambiguous = 'b'
+    `,
+    'file:///c.js': `
+      export const ambiguous = 'c'
+    `,
+    'file:///shared.js': `
+      export const shared = 'shared'
+    `
+  })
+
+  const main = await importModule('file:///main.js')
+
+  assert.deepEqual({ ...main }, { local: 'main', onlyA: 'a', shared: 'shared' })
+})
+
+test('createModuleGraph evaluates modules which shadow globals', async () => {
+  const importModule = createModuleGraph({
+    'file:///main.js': `
+      import { Promise } from './promise.js'
+      export * from './promise.js'
+      export const Object = { Promise }
+      export function Symbol() {
+        return Object
+      }
+    `,
+    'file:///promise.js': `
+      export const Promise = 'promise'
+      export const Proxy = 'proxy'
+    `
+  })
+
+  const main = await importModule('file:///main.js')
+
+  assert.deepEqual(Object.keys(main).sort(), ['Object', 'Promise', 'Proxy', 'Symbol'])
+  assert.deepEqual(main.Object, { Promise: 'promise' })
+  assert.equal((main.Symbol as () => unknown)(), main.Object)
+})
+
+test('createModuleGraph accepts a custom loader', async () => {
+  const importModule = createModuleGraph({
+    resolve(specifier, parentUrl) {
+      return new URL(specifier, parentUrl ?? 'https://example.com/').href
+    },
+    load() {
+      return `export const url = import.meta.url
+        export const filename = import.meta.filename
+        export const resolved = import.meta.resolve('dependency')`
+    }
+  })
+
+  const result = await importModule('main.js')
+
+  assert.equal(result.url, 'https://example.com/main.js')
+  assert.equal(result.filename, undefined)
+  assert.equal(result.resolved, 'https://example.com/dependency')
+})
+
+/**
+ * Get the original position of the first occurrence of a string in generated code.
+ *
+ * @param consumer
+ *   The source map consumer to use.
+ * @param code
+ *   The generated code.
+ * @param search
+ *   The string to search for.
+ * @returns
+ *   The original line and column.
+ */
+function getOriginalPosition(
+  consumer: SourceMapConsumer,
+  code: string,
+  search: string
+): { column: null | number; line: null | number } {
+  const lines = code.slice(0, code.indexOf(search)).split('\n')
+  const { column, line } = consumer.originalPositionFor({
+    line: lines.length,
+    column: lines.at(-1)!.length
+  })
+  return { line, column }
+}
+
+test('createImport resolves specifiers using an import map', async () => {
+  let loads = 0
+  const lodash = { name: 'lodash' }
+  const scopedLodash = { name: 'scoped lodash' }
+  const importModule = createImport({
+    url: 'https://example.com/app/main.js',
+    importMap: {
+      imports: {
+        lodash: 'https://cdn.example/lodash.js',
+        'lodash/': 'https://cdn.example/lodash/',
+        '/app/shared.js': './local.js'
+      },
+      scopes: {
+        '/app/': { lodash: '/vendor/lodash.js' },
+        '/other/': { lodash: '/other/lodash.js' },
+        'https://example.com/app/main.js': { exact: '/exact.js' }
+      }
+    },
+    modules: {
+      'https://cdn.example/lodash.js': lodash,
+      'https://cdn.example/lodash/fp.js': { name: 'fp' },
+      'https://example.com/vendor/lodash.js'() {
+        loads += 1
+        return scopedLodash
+      },
+      'https://example.com/app/local.js': async (url) => ({ url }),
+      'https://example.com/exact.js': { name: 'exact' },
+      'https://example.com/data.json': { default: { answer: 42 } }
+    }
+  })
+
+  assert.equal(importModule.meta?.url, 'https://example.com/app/main.js')
+  assert.equal(importModule.meta?.resolve?.('lodash/fp.js'), 'https://cdn.example/lodash/fp.js')
+  assert.equal(
+    importModule.meta?.resolve?.('https://cdn.example/lodash.js'),
+    'https://cdn.example/lodash.js'
+  )
+  assert.equal(await importModule('lodash'), scopedLodash)
+  assert.equal(await importModule('lodash'), scopedLodash)
+  assert.equal(loads, 1)
+  assert.deepEqual(await importModule('lodash/fp.js'), { name: 'fp' })
+  assert.deepEqual(await importModule('exact'), { name: 'exact' })
+  assert.deepEqual(await importModule('./shared.js'), { url: 'https://example.com/app/local.js' })
+  assert.deepEqual(await importModule('../data.json', { with: { type: 'json' } }), {
+    default: { answer: 42 }
+  })
+  await assert.rejects(importModule('react'), {
+    name: 'TypeError',
+    message:
+      "Failed to resolve module specifier 'react'. Relative references must start with either '/', './', or '../'."
+  })
+  await assert.rejects(importModule('/missing.js'), {
+    name: 'TypeError',
+    message: "Cannot find module 'https://example.com/missing.js'"
+  })
+  await assert.rejects(importModule('/data.json'), {
+    name: 'TypeError',
+    message:
+      "Module 'https://example.com/data.json' is a JSON module, but it was imported without type 'json'"
+  })
+  await assert.rejects(importModule('lodash', { with: { type: 'json' } }), {
+    name: 'TypeError',
+    message:
+      "Module 'https://example.com/vendor/lodash.js' is not a JSON module, but it was imported with type 'json'"
+  })
+  await assert.rejects(importModule('lodash', { with: { type: 'css' } }), {
+    name: 'TypeError',
+    message: "Module 'https://example.com/vendor/lodash.js' has an unsupported type 'css'"
+  })
+})
+
+test('createImport resolves the import map against its own URL', () => {
+  const importModule = createImport({
+    url: 'https://example.com/lib/deep/a.js',
+    importMapUrl: 'https://example.com/index.html',
+    importMap: {
+      imports: { './y.js': './y2.js' },
+      scopes: { '/lib/': { x: './x2.js' } }
+    },
+    modules: {}
+  })
+
+  assert.equal(importModule.meta?.resolve?.('x'), 'https://example.com/x2.js')
+  assert.equal(importModule.meta?.resolve?.('/y.js'), 'https://example.com/y2.js')
+  assert.equal(importModule.meta?.resolve?.('./y.js'), 'https://example.com/lib/deep/y.js')
+})
+
+test('createImport works without an import map', async () => {
+  const ast = parse(
+    `
+      import { greeting } from './greeting.js'
+      export const message = greeting + ' ' + import.meta.url
+    `,
+    { ecmaVersion: 'latest', sourceType: 'module' }
+  ) as Program
+  moduleToFunction(ast, { importName: 'importModule' })
+  const code = `export default async (importModule) => {${generate(ast)}}`
+  const { default: fn } = (await import(`data:text/javascript,${encodeURIComponent(code)}`)) as {
+    default: (importModule: Import) => Promise<Record<string, unknown>>
+  }
+  const namespace = await fn(
+    createImport({
+      url: 'file:///project/main.js',
+      modules: { 'file:///project/greeting.js': { greeting: 'Hello' } }
+    })
+  )
+
+  assert.equal(namespace.message, 'Hello file:///project/main.js')
+})
+
+test('createImportTracer calls hooks for imports', async () => {
+  const ast = parse("import { a } from './a.js'\nexport const b = await import('./b.js')", {
+    ecmaVersion: 'latest',
+    sourceType: 'module',
+    locations: true
+  }) as Program
+  const { program } = moduleToFunctionExpression(ast, {
+    importName: 'importModule',
+    traceName: 'trace'
+  })
+  const code = `export default ${generate(program)}`
+  const { default: fn } = (await import(`data:text/javascript,${encodeURIComponent(code)}`)) as {
+    default: (...args: [Import, TraceImport]) => Promise<Record<string, unknown>>
+  }
+  const events: unknown[] = []
+  const importModule = createImport({
+    modules: { 'file:///a.js': { a: 'a' }, 'file:///b.js': { b: 'b' } },
+    url: 'file:///main.js'
+  })
+  const trace = createImportTracer({
+    onImportStart: (info) => events.push(['start', info]),
+    onImportEnd: (info) => events.push(['end', info.specifier])
+  })
+
+  assert.deepEqual((await fn(importModule, trace)).b, { b: 'b' })
+  assert.deepEqual(events, [
+    ['start', { kind: 'static', specifier: './a.js', attributes: {}, line: 1, column: 0 }],
+    ['end', './a.js'],
+    ['start', { kind: 'dynamic', specifier: './b.js', attributes: {}, line: 2, column: 23 }],
+    ['end', './b.js']
+  ])
+})
+
+test('moduleToFunction traces imports whose arguments await or yield', async () => {
+  const ast = parse(
+    `
+      export function* load() {
+        return yield import(yield 'specifier', yield 'options')
+      }
+      export const b = await import(await './b.js')
+    `,
+    { ecmaVersion: 'latest', sourceType: 'module' }
+  ) as Program
+  const { program } = moduleToFunctionExpression(ast, {
+    importName: 'importModule',
+    traceName: 'trace'
+  })
+  const code = `export default ${generate(program)}`
+  const { default: fn } = (await import(`data:text/javascript,${encodeURIComponent(code)}`)) as {
+    default: (...args: [Import, TraceImport]) => Promise<Record<string, unknown>>
+  }
+  const specifiers: unknown[] = []
+  const importModule = createImport({
+    modules: { 'file:///a.js': { a: 'a' }, 'file:///b.js': { b: 'b' } },
+    url: 'file:///main.js'
+  })
+  const trace = createImportTracer({
+    onImportStart: (info) => specifiers.push(info.specifier)
+  })
+
+  const namespace = await fn(importModule, trace)
+  const generator = (namespace.load as () => Generator<unknown, unknown, unknown>)()
+
+  assert.deepEqual(namespace.b, { b: 'b' })
+  assert.deepEqual(generator.next().value, 'specifier')
+  assert.deepEqual(generator.next('./a.js').value, 'options')
+  assert.deepEqual(await generator.next().value, { a: 'a' })
+  assert.deepEqual(specifiers, [undefined, undefined])
+})
+
+test('createImportTracer adds context to import errors', async () => {
+  const cause = new TypeError('Cannot find module')
+
+  await assert.rejects(
+    createImportTracer({ url: 'file:///main.js' })(() => Promise.reject(cause), {
+      kind: 'static',
+      specifier: './missing.js',
+      attributes: {},
+      line: 3,
+      column: 4
+    }),
+    {
+      message: "Failed to import './missing.js' in file:///main.js (3:5): Cannot find module",
+      cause
+    }
+  )
+  const reason: unknown = 'reason'
+  await assert.rejects(
+    createImportTracer()(() => Promise.reject(reason), { kind: 'dynamic', attributes: {} }),
+    { message: 'Failed to import a module: reason', cause: reason }
+  )
+})
+
+test('createImportTracer supports synchronous imports', () => {
+  const events: unknown[] = []
+  const trace = createImportTracer({
+    onImportEnd: (info) => events.push(info.specifier),
+    onImportError: () => new Error('Custom error')
+  })
+  const traceInfo = { kind: 'static', specifier: 'a', attributes: {} } as const
+
+  assert.deepEqual(
+    trace(() => ({ a: 'a' }), traceInfo),
+    { a: 'a' }
+  )
+  assert.deepEqual(events, ['a'])
+  assert.throws(
+    () =>
+      trace(() => {
+        throw new Error('Original error')
+      }, traceInfo),
+    { message: 'Custom error' }
+  )
+})
+
+test('moduleToFunction preserves source locations', async () => {
+  const source = `const before = 1
+import fallback from 'a'
+export { before }
+export default import.meta.url
+export { member } from 'b'
+`
+  const ast = parse(source, {
+    ecmaVersion: 'latest',
+    sourceType: 'module',
+    locations: true,
+    ranges: true
+  }) as Program
+  moduleToFunction(ast, { importName: 'customImport' })
+  const sourceMap = new SourceMapGenerator({ file: 'input.js' })
+  const code = generate(ast, { sourceMap })
+
+  assert.deepEqual(ast.body[1].range, [17, 41])
+
+  await SourceMapConsumer.with(sourceMap.toJSON(), null, (consumer) => {
+    assert.deepEqual(getOriginalPosition(consumer, code, 'await'), { line: 2, column: 0 })
+    assert.deepEqual(getOriginalPosition(consumer, code, 'Promise.all'), { line: 2, column: 0 })
+    assert.deepEqual(getOriginalPosition(consumer, code, 'customImport('), { line: 2, column: 0 })
+    assert.deepEqual(getOriginalPosition(consumer, code, 'default:'), { line: 2, column: 7 })
+    assert.deepEqual(getOriginalPosition(consumer, code, '__default_export__ ='), {
+      line: 4,
+      column: 0
+    })
+    assert.deepEqual(getOriginalPosition(consumer, code, 'customImport.meta'), {
+      line: 4,
+      column: 15
+    })
+    assert.deepEqual(getOriginalPosition(consumer, code, 'before,'), { line: 3, column: 9 })
+    assert.deepEqual(getOriginalPosition(consumer, code, 'default: __default_export__'), {
+      line: 4,
+      column: 0
+    })
+    assert.deepEqual(getOriginalPosition(consumer, code, 'member: _imports[1]'), {
+      line: 5,
+      column: 9
+    })
+  })
+})
+
+test('moduleToFunction throws for top-level await if requireName is specified', () => {
+  const options = { ecmaVersion: 'latest', sourceType: 'module' } as const
+
+  assert.throws(
+    () => moduleToFunction(parse('await 42', options) as Program, { requireName: 'r' }),
+    {
+      message: 'Top-level await is not supported if requireName is specified'
+    }
+  )
+  assert.throws(
+    () =>
+      moduleToFunction(
+        parse('\nfor await (const x of []) {}', { ...options, locations: true }) as Program,
+        {
+          requireName: 'r'
+        }
+      ),
+    { message: 'Top-level await is not supported if requireName is specified (2:1)' }
+  )
+})
+
+test('moduleToFunction resolves specifiers at transform time', () => {
+  const ast = parse(
+    `
+      import a from 'a'
+      import data from './data.json' with { type: 'json' }
+      export { b } from 'b'
+      export * from 'c'
+      import('d')
+      import(\`e\`, { with: { type: 'json', [computed]: 'ignored', other: variable } })
+      import('f', options)
+      import('g', { with: variable, [computed]: {} })
+      import(dynamic)
+    `,
+    { ecmaVersion: 'latest', sourceType: 'module' }
+  ) as Program
+  const calls: [string, Record<string, string>][] = []
+  const result = moduleToFunction(ast, {
+    resolve(specifier, attributes) {
+      calls.push([specifier, attributes])
+      return `https://esm.sh/${specifier}`
+    }
+  })
+
+  assert.deepEqual(calls, [
+    ['a', {}],
+    ['./data.json', { type: 'json' }],
+    ['b', {}],
+    ['c', {}],
+    ['d', {}],
+    ['e', { type: 'json' }],
+    ['f', {}],
+    ['g', {}]
+  ])
+  assert.deepEqual(
+    result.imports.map((info) => info.source),
+    ['https://esm.sh/a', 'https://esm.sh/./data.json', 'https://esm.sh/b', 'https://esm.sh/c']
+  )
+  assert.deepEqual(result.dynamicImports, [
+    'https://esm.sh/d',
+    'https://esm.sh/e',
+    'https://esm.sh/f',
+    'https://esm.sh/g'
+  ])
+  assert.match(generate(ast), /import\("https:\/\/esm\.sh\/d"\)/)
+  assert.throws(
+    () =>
+      moduleToFunction(
+        parse('import "forbidden"', { ecmaVersion: 'latest', sourceType: 'module' }) as Program,
+        {
+          resolve(specifier) {
+            throw new Error(`Module ${specifier} is not allowed`)
+          }
+        }
+      ),
+    { message: 'Module forbidden is not allowed' }
+  )
+})
+
+test('moduleToFunction validates modules', () => {
+  // Acorn rejects most invalid modules, so the invalid parts are parsed as separate programs.
+  const parseModule = (...sources: string[]): Program => ({
+    type: 'Program',
+    sourceType: 'module',
+    body: sources.flatMap(
+      (source) =>
+        (
+          parse(source, {
+            ecmaVersion: 'latest',
+            sourceType: 'module',
+            locations: true
+          }) as Program
+        ).body
+    )
+  })
+  const createModule = (): Program => {
+    const ast = parseModule(
+      'import a from "a"\nexport { a }',
+      'import { a, b as c } from "b"',
+      'const c = 1',
+      'if (c) {\n  var a\n}',
+      'export const b = 1',
+      'export * as b from "c"',
+      'export default function d() {}',
+      'export { b as default } from "d"',
+      'export default class {}',
+      'export * from "e"',
+      'export { notDeclared } from "f"'
+    )
+    const undeclaredExport = ast.body.at(-1) as ExportNamedDeclaration
+    undeclaredExport.source = null
+    return ast
+  }
+  const { diagnostics } = moduleToFunction(createModule(), { validate: 'collect' })
+
+  assert.deepEqual(
+    diagnostics.map(({ code, loc, message }) => [
+      code,
+      message,
+      loc?.start.line,
+      loc?.start.column
+    ]),
+    [
+      ['duplicate-import', "Identifier 'a' has already been declared", 1, 9],
+      ['duplicate-import', "Identifier 'c' has already been declared", 1, 6],
+      ['duplicate-export', "Duplicate export 'b'", 1, 12],
+      ['duplicate-export', "Duplicate export 'default'", 1, 14],
+      ['duplicate-export', "Duplicate export 'default'", 1, 0],
+      ['duplicate-import', "Identifier 'a' has already been declared", 2, 6],
+      ['undeclared-export', "Export 'notDeclared' is not defined", 1, 9]
+    ]
+  )
+  assert.throws(() => moduleToFunction(createModule(), { validate: 'throw' }), {
+    name: 'SyntaxError',
+    message: "Identifier 'a' has already been declared (1:10)",
+    diagnostic: diagnostics[0]
+  })
+  assert.deepEqual(moduleToFunction(createModule()).diagnostics, [])
+})
+
+test('moduleToFunction returns frozen module namespaces with sorted keys', async () => {
+  const ast = parse(
+    `
+      export * from 'a'
+      export * from 'b'
+      export const z = 'z'
+      export const ambiguous = 'local'
+    `,
+    { ecmaVersion: 'latest', sourceType: 'module' }
+  ) as Program
+  moduleToFunction(ast, { importName: 'importModule' })
+  const modules: Record<string, Record<string, unknown>> = {
+    a: { ambiguous: 'a', conflict: 'a', y: 'a', default: 'a' },
+    b: { conflict: 'b', x: 'b' }
+  }
+  const code = `export default async (importModule) => {${generate(ast)}}`
+  const { default: fn } = (await import(`data:text/javascript,${encodeURIComponent(code)}`)) as {
+    default: (importModule: Import) => Promise<Record<string, unknown>>
+  }
+  const namespace = await fn(async (specifier) => modules[specifier])
+
+  assert.ok(Object.isFrozen(namespace))
+  assert.equal(Object.getPrototypeOf(namespace), null)
+  assert.equal(Object.prototype.toString.call(namespace), '[object Module]')
+  assert.deepEqual(Object.keys(namespace), ['ambiguous', 'x', 'y', 'z'])
+  assert.equal(namespace.ambiguous, 'local')
+})
+
+test('moduleToFunction supports TypeScript ESTree module syntax', () => {
+  const ast = parseTypeScript(
+    `
+      import type { A } from 'a'
+      import { type B, C } from 'b'
+      import { type D } from 'd'
+      import type * as E from 'e'
+      import f = require('f')
+      import type G = require('g')
+      import h = f.nested.h
+      export import i = require('i')
+      export type { J } from 'j'
+      export type * from 'k'
+      export { type B, C }
+      export interface L {}
+      export type M = string
+      export declare const n: number
+      export = h
+    `,
+    { loc: true, range: true }
+  ) as Program
+  const result = moduleToFunction(ast)
+
+  assert.deepEqual(
+    result.imports.map(({ names, source }) => [source, names]),
+    [
+      ['b', ['C']],
+      ['d', []],
+      ['f', ['default']],
+      ['i', ['default']]
+    ]
+  )
+  assert.deepEqual(result.exports, [
+    { kind: 'local', name: 'i' },
+    { kind: 'local', name: 'C' },
+    { kind: 'local', name: 'default' }
+  ])
+  assert.equal(
+    generate(ast),
+    [
+      '"use strict";',
+      "const [{C}, , {default: f}, {default: i}] = await Promise.all([import('b'), import('d'), import('f'), import('i')]);",
+      'const h = f.nested.h;',
+      'const __default_export__ = h;',
+      'return Object.freeze({',
+      '  __proto__: null,',
+      '  [Symbol.toStringTag]: "Module",',
+      '  C,',
+      '  default: __default_export__,',
+      '  i',
+      '});',
+      ''
+    ].join('\n')
+  )
+})
+
+test('moduleToFunctionExpression returns a function without modifying the program', async () => {
+  const source = `
+    import { greeting } from 'greeting'
+    export const message = greeting + ', ' + name
+  `
+  const ast = parse(source, { ecmaVersion: 'latest', sourceType: 'module' }) as Program
+  const original = generate(ast)
+  const result = moduleToFunctionExpression(ast, {
+    importName: 'importModule',
+    parameters: ['name'],
+    sourceURL: 'file:///project/message.js'
+  })
+
+  assert.equal(generate(ast), original)
+  assert.equal(result.async, true)
+  assert.equal(result.function.async, true)
+  assert.deepEqual(result.program.body, [
+    { type: 'ExpressionStatement', expression: result.function }
+  ])
+  assert.equal(
+    `${generate(result.program)}${result.sourceURLComment}\n`,
+    [
+      '(async function (importModule, name) {',
+      '  "use strict";',
+      "  const {greeting} = await importModule('greeting');",
+      "  const message = greeting + ', ' + name;",
+      '  return Object.freeze({',
+      '    __proto__: null,',
+      '    [Symbol.toStringTag]: "Module",',
+      '    message',
+      '  });',
+      '});',
+      '//# sourceURL=file:///project/message.js',
+      ''
+    ].join('\n')
+  )
+
+  const module: Program = {
+    type: 'Program',
+    sourceType: 'module',
+    body: [{ type: 'ExportDefaultDeclaration', declaration: result.function }]
+  }
+  const code = generate(module)
+  const { default: fn } = (await import(`data:text/javascript,${encodeURIComponent(code)}`)) as {
+    default: (importModule: Import, name: string) => Promise<Record<string, unknown>>
+  }
+  const namespace = await fn(async () => ({ greeting: 'Hello' }), 'world')
+
+  assert.equal(namespace.message, 'Hello, world')
+})
+
+test('moduleToFunctionExpression only creates an async function if needed', () => {
+  const ast = parse("import { value } from 'value'\nexport default value", {
+    ecmaVersion: 'latest',
+    sourceType: 'module'
+  }) as Program
+  const result = moduleToFunctionExpression(ast, { requireName: 'require' })
+
+  assert.equal(result.async, false)
+  assert.equal(result.program.trailingComments, undefined)
+  assert.equal(
+    generate(result.program),
+    [
+      '(function (require) {',
+      '  "use strict";',
+      "  const {value} = require('value');",
+      '  const __default_export__ = value;',
+      '  return Object.freeze({',
+      '    __proto__: null,',
+      '    [Symbol.toStringTag]: "Module",',
+      '    default: __default_export__',
+      '  });',
+      '});',
+      ''
+    ].join('\n')
+  )
+})
+
+test('moduleToFunction defers evaluation of deferred imports', async () => {
+  const ast = parser.parse("import defer * as lazy from 'lazy'\nexport { lazy }", {
+    ecmaVersion: 'latest',
+    sourceType: 'module'
+  }) as Program
+  const result = moduleToFunctionExpression(ast, { prefix: '$', requireName: 'require' })
+  const module: Program = {
+    type: 'Program',
+    sourceType: 'module',
+    body: [{ type: 'ExportDefaultDeclaration', declaration: result.function }]
+  }
+  const code = generate(module)
+  const { default: fn } = (await import(`data:text/javascript,${encodeURIComponent(code)}`)) as {
+    default: (require: Require) => Record<string, Record<string, unknown>>
+  }
+  const loads: string[] = []
+  const { lazy } = fn((specifier) => {
+    loads.push(specifier)
+    return { value: 42 }
+  })
+
+  assert.match(code, /function \$defer\(load\)/)
+  assert.deepEqual(result.imports, [
+    { source: 'lazy', attributes: {}, names: ['*'], phase: 'defer' }
+  ])
+  assert.equal(Object.prototype.toString.call(lazy), '[object Deferred Module]')
+  assert.equal(lazy.then, undefined)
+  assert.deepEqual(loads, [])
+  assert.equal(lazy.value, 42)
+  assert.deepEqual(Object.keys(lazy), ['value'])
+  assert.ok('value' in lazy)
+  assert.throws(() => {
+    lazy.value = 1
+  }, TypeError)
+  assert.deepEqual(loads, ['lazy'])
+})
+
+test('moduleToFunction supports Babel ASTs', () => {
+  const file = parseBabel(
+    `
+      'use strict'
+      import a, { 'b-c' as b } from 'a' with { 'type': 'json' }
+      import legacy from 'legacy' assert { type: 'json' }
+      export * as ns from 'ns'
+      export v from 'v'
+      export { a as 'd-e', b }
+      export class A {
+        async method() {
+          await b
+        }
+        static #private() {}
+      }
+      export const object = {
+        async method() {
+          await a
+        },
+        get getter() {
+          return legacy
+        },
+        ['computed']() {}
+      }
+      export const dynamic = import('dynamic', { assert: { type: 'json' } })
+    `,
+    { sourceType: 'module', plugins: ['exportDefaultFrom', 'importAssertions'] }
+  )
+  const result = moduleToFunction(file as unknown as moduleToFunction.File, {
+    requireName: 'require',
+    importName: 'importModule'
+  })
+
+  assert.equal(result.async, false)
+  assert.deepEqual(result.imports, [
+    { source: 'a', attributes: { type: 'json' }, names: ['default', 'b-c'] },
+    { source: 'legacy', attributes: { type: 'json' }, names: ['default'] },
+    { source: 'ns', attributes: {}, names: ['*'] },
+    { source: 'v', attributes: {}, names: ['default'] }
+  ])
+  assert.deepEqual(result.exports, [
+    { kind: 're-export', name: 'ns', source: 'ns', imported: '*' },
+    { kind: 're-export', name: 'v', source: 'v', imported: 'default' },
+    { kind: 'local', name: 'd-e' },
+    { kind: 'local', name: 'b' },
+    { kind: 'local', name: 'A' },
+    { kind: 'local', name: 'object' },
+    { kind: 'local', name: 'dynamic' }
+  ])
+  assert.deepEqual(result.dynamicImports, ['dynamic'])
+  assert.equal(
+    generate(file.program as unknown as Program),
+    [
+      "'use strict';",
+      "const _imports = [require('a', {",
+      '  with: {',
+      "    'type': 'json'",
+      '  }',
+      "}), require('legacy', {",
+      '  with: {',
+      "    type: 'json'",
+      '  }',
+      "}), require('ns'), require('v')], [{default: a, 'b-c': b}, {default: legacy}] = _imports;",
+      'class A {',
+      '  async method() {',
+      '    await b;',
+      '  }',
+      '  static #private() {}',
+      '}',
+      'const object = {',
+      '  async method() {',
+      '    await a;',
+      '  },',
+      '  get getter() {',
+      '    return legacy;',
+      '  },',
+      "  ['computed']() {}",
+      '};',
+      "const dynamic = importModule('dynamic', {",
+      '  with: {',
+      "    type: 'json'",
+      '  }',
+      '});',
+      'return Object.freeze({',
+      '  __proto__: null,',
+      '  [Symbol.toStringTag]: "Module",',
+      '  A,',
+      '  b,',
+      "  'd-e': a,",
+      '  dynamic,',
+      '  ns: _imports[2],',
+      '  object,',
+      '  v: _imports[3].default',
+      '});',
+      ''
+    ].join('\n')
+  )
+})
+
+test('moduleToFunction supports Babel import expressions', () => {
+  const file = parseBabel("import('a')\nimport('b', { with: { type: 'json' } })", {
+    createImportExpressions: true,
+    sourceType: 'module'
+  })
+  const resolved: [string, Record<string, string>][] = []
+  const result = moduleToFunctionExpression(file as unknown as moduleToFunction.File, {
+    importName: 'importModule',
+    resolve(specifier, attributes) {
+      resolved.push([specifier, attributes])
+      return `/${specifier}.js`
+    }
+  })
+
+  assert.deepEqual(resolved, [
+    ['a', {}],
+    ['b', { type: 'json' }]
+  ])
+  assert.equal(
+    generate(result.program),
+    [
+      '(function (importModule) {',
+      '  "use strict";',
+      '  importModule("/a.js");',
+      '  importModule("/b.js", {',
+      '    with: {',
+      "      type: 'json'",
+      '    }',
+      '  });',
+      '  return Object.freeze({',
+      '    __proto__: null,',
+      '    [Symbol.toStringTag]: "Module"',
+      '  });',
+      '});',
+      ''
+    ].join('\n')
+  )
+})
+
+test('moduleToFunction supports legacy import assertions', () => {
+  const ast = parse("import a from 'a'\nimport b from 'b'", {
+    ecmaVersion: 2020,
+    sourceType: 'module'
+  }) as Program
+  Object.assign(ast.body[0], {
+    assertions: [
+      {
+        type: 'ImportAttribute',
+        key: { type: 'Identifier', name: 'type' },
+        value: { type: 'Literal', value: 'json' }
+      }
+    ]
+  })
+  const result = moduleToFunction(ast)
+
+  assert.deepEqual(
+    result.imports.map((staticImport) => staticImport.attributes),
+    [{ type: 'json' }, {}]
+  )
+  assert.equal(
+    generate(ast),
+    [
+      '"use strict";',
+      "const [{default: a}, {default: b}] = await Promise.all([import('a'), import('b')]);",
+      'return Object.freeze({',
+      '  __proto__: null,',
+      '  [Symbol.toStringTag]: "Module"',
+      '});',
+      ''
+    ].join('\n')
+  )
+})
+
+test('moduleToFunction imports externals natively', () => {
+  for (const externals of [/^node:/, (specifier: string) => specifier.startsWith('node:')]) {
+    const ast = parse(
+      `
+        import { readFile } from 'node:fs/promises'
+        import { local } from './local.js'
+        export const dynamic = import('node:path')
+      `,
+      { ecmaVersion: 'latest', sourceType: 'module' }
+    ) as Program
+    moduleToFunction(ast, { externals, importName: 'importModule' })
+
+    assert.equal(
+      generate(ast),
+      [
+        '"use strict";',
+        "const [{readFile}, {local}] = await Promise.all([import('node:fs/promises'), importModule('./local.js')]);",
+        "const dynamic = import('node:path');",
+        'return Object.freeze({',
+        '  __proto__: null,',
+        '  [Symbol.toStringTag]: "Module",',
+        '  dynamic',
+        '});',
+        ''
+      ].join('\n')
+    )
+  }
+})
+
+test('moduleToFunction removes unused imports without side effects', () => {
+  const ast = parse(
+    `
+      import { unused } from 'pure'
+      import { alsoUnused } from 'impure'
+      import 'bare-pure'
+      console.log()
+    `,
+    { ecmaVersion: 'latest', sourceType: 'module' }
+  ) as Program
+  moduleToFunction(ast, {
+    removeUnusedImports: true,
+    sideEffects: (specifier) => !specifier.includes('pure') || specifier === 'impure'
+  })
+
+  assert.equal(
+    generate(ast),
+    [
+      '"use strict";',
+      "await import('impure');",
+      'console.log();',
+      'return Object.freeze({',
+      '  __proto__: null,',
+      '  [Symbol.toStringTag]: "Module"',
+      '});',
+      ''
+    ].join('\n')
+  )
+})
+
+test('moduleToFunction keeps imports referenced from JSX', () => {
+  const { program } = parseBabel(
+    `
+      import { Component, intrinsic, member, unused } from 'components'
+      export default <><Component title="title" /><member.Child /><intrinsic /></>
+    `,
+    { plugins: ['jsx'], sourceType: 'module' }
+  )
+  const result = moduleToFunction(program as unknown as Program, { removeUnusedImports: true })
+
+  assert.deepEqual(result.imports[0].names, ['Component', 'member'])
+})
+
+test('moduleToFunction keeps all imports if references can’t be determined', () => {
+  const ast = parse('import { unused } from "module"\neval("unused")', {
+    ecmaVersion: 'latest',
+    sourceType: 'module'
+  }) as Program
+  const result = moduleToFunction(ast, { removeUnusedImports: true })
+
+  assert.deepEqual(result.imports[0].names, ['unused'])
+})
+
+test('moduleToFunction inlines import.meta values', () => {
+  const ast = parse(
+    `
+      export const url = import.meta.url
+      export const resolved = import.meta.resolve('./dependency.js')
+    `,
+    { ecmaVersion: 'latest', sourceType: 'module' }
+  ) as Program
+  const result = moduleToFunctionExpression(ast, {
+    meta: {
+      resolve: (specifier) => new URL(specifier, 'file:///project/module.js').href,
+      url: 'file:///project/module.js'
+    },
+    metaName: 'meta'
+  })
+
+  assert.equal(
+    generate(result.program),
+    [
+      '(function (meta) {',
+      '  "use strict";',
+      '  const url = "file:///project/module.js";',
+      '  const resolved = "file:///project/dependency.js";',
+      '  return Object.freeze({',
+      '    __proto__: null,',
+      '    [Symbol.toStringTag]: "Module",',
+      '    resolved,',
+      '    url',
+      '  });',
+      '});',
+      ''
+    ].join('\n')
+  )
+  assert.equal(result.importMeta, false)
+})
+
+test('moduleToFunction keeps import.meta uses which can’t be inlined', () => {
+  const ast = parse('import.meta[key]\nimport.meta.resolve(specifier)\nimport.meta.resolve()', {
+    ecmaVersion: 'latest',
+    sourceType: 'module'
+  }) as Program
+  const result = moduleToFunction(ast, {
+    meta: { resolve: String, url: 'file:///project/module.js' },
+    metaName: 'meta'
+  })
+
+  assert.equal(
+    generate(ast),
+    [
+      '"use strict";',
+      'meta[key];',
+      'meta.resolve(specifier);',
+      'meta.resolve();',
+      'return Object.freeze({',
+      '  __proto__: null,',
+      '  [Symbol.toStringTag]: "Module"',
+      '});',
+      ''
+    ].join('\n')
+  )
+  assert.equal(result.importMeta, true)
+})
+
+test('moduleToFunction looks up globals on a scope object', async () => {
+  const ast = parse(
+    `
+      const local = 'local'
+      export const self = this
+      export const args = arguments
+      export const value = secret
+      export const evaluated = eval('typeof local')
+      export const allowed = Object.keys({ local })
+    `,
+    { ecmaVersion: 'latest', sourceType: 'module' }
+  ) as Program
+  const { program } = moduleToFunctionExpression(ast, {
+    allowGlobals: ['Object'],
+    globalsName: 'scope'
+  })
+  const code = `export default ${generate(program)}`
+  const { default: fn } = (await import(`data:text/javascript,${encodeURIComponent(code)}`)) as {
+    default: (this: unknown, scope: Record<string, unknown>) => Record<string, unknown>
+  }
+
+  assert.deepEqual(
+    { ...fn.call('this', { arguments: 'arguments', eval: String, secret: 'secret' }) },
+    {
+      [Symbol.toStringTag]: 'Module',
+      allowed: ['local'],
+      args: 'arguments',
+      evaluated: 'typeof local',
+      self: undefined,
+      value: 'secret'
+    }
+  )
+})
+
+test('moduleToFunction throws if globalsName is shadowed', () => {
+  const options = { ecmaVersion: 'latest', sourceType: 'module', locations: true } as const
+
+  assert.throws(
+    () =>
+      moduleToFunction(parse('export const scope = secret', options) as Program, {
+        globalsName: 'scope'
+      }),
+    { message: 'globalsName `scope` collides with a module scope binding (1:14)' }
+  )
+  assert.throws(
+    () =>
+      moduleToFunction(parse('import scope from "a"', options) as Program, {
+        globalsName: 'scope'
+      }),
+    { message: 'globalsName `scope` collides with a module scope binding (1:8)' }
+  )
+  assert.throws(
+    () =>
+      moduleToFunction(parse('function f(scope) {\n  return secret\n}', options) as Program, {
+        globalsName: 'scope'
+      }),
+    { message: 'globalsName `scope` is shadowed where a global is referenced (2:10)' }
+  )
+
+  const ast = parse('function f(scope) {\n  return scope\n}', options) as Program
+  moduleToFunction(ast, { globalsName: 'scope' })
+  assert.match(generate(ast), /return scope/)
+})
+
+test('moduleToFunction only looks up denied globals on a scope object', () => {
+  const ast = parse('process.exit(globalThis.process)', {
+    ecmaVersion: 'latest',
+    sourceType: 'module'
+  }) as Program
+  moduleToFunction(ast, { denyGlobals: ['process'], globalsName: 'scope' })
+
+  assert.equal(
+    generate(ast),
+    [
+      '"use strict";',
+      'scope.process.exit(globalThis.process);',
+      'return Object.freeze({',
+      '  __proto__: null,',
+      '  [Symbol.toStringTag]: "Module"',
+      '});',
+      ''
+    ].join('\n')
+  )
+})
+
+test('moduleToFunction looks up globals referenced from JSX on a scope object', () => {
+  const { program } = parseBabel(
+    `
+      const Local = () => null
+      export default <><Component title="title" /><Local /><member.Child /><intrinsic /></>
+    `,
+    { plugins: ['jsx'], sourceType: 'module' }
+  )
+  moduleToFunction(program as unknown as Program, { globalsName: 'scope' })
+
+  interface JSXName {
+    name?: string
+    object?: JSXName
+    property?: JSXName
+  }
+  const stringify = ({ name, object, property }: JSXName): string =>
+    name ?? `${stringify(object!)}.${stringify(property!)}`
+  const [, , declaration] = program.body as unknown as [
+    unknown,
+    unknown,
+    { declarations: [{ init: { children: { openingElement: { name: JSXName } }[] } }] }
+  ]
+
+  assert.deepEqual(
+    declaration.declarations[0].init.children.map((child) => stringify(child.openingElement.name)),
+    ['scope.Component', 'Local', 'scope.member.Child', 'intrinsic']
+  )
+})
+
+test('moduleToFunction only looks up references in Babel ASTs on a scope object', () => {
+  const { program } = parseBabel(
+    `
+      const object = { key: 1, shorthand, [computed]: 2 }
+      object?.optional
+      object?.[optionalComputed]
+      class Class {
+        field = this.field
+        #private = 1
+        constructor(private readonly parameter: Parameter = fallback) {
+          parameter
+        }
+        method(): Return {
+          return this.#private
+        }
+      }
+      let annotated: Type<Argument> = value as Cast
+      interface Interface {
+        property: Property
+      }
+      type Alias = Aliased
+    `,
+    { plugins: ['typescript'], sourceType: 'module' }
+  )
+  moduleToFunction(program as unknown as Program, { globalsName: 'scope' })
+
+  const names: unknown[] = []
+  walk(program as unknown as Node, {
+    enter(node) {
+      if (
+        node.type === 'MemberExpression' &&
+        node.object.type === 'Identifier' &&
+        node.object.name === 'scope' &&
+        node.property.type === 'Identifier'
+      ) {
+        names.push(node.property.name)
+      }
+    }
+  })
+
+  assert.deepEqual(names, ['shorthand', 'computed', 'optionalComputed', 'fallback', 'value'])
+})
+
+test('moduleToFunction reads imports referenced from JSX when they’re used', () => {
+  const { program } = parseBabel(
+    `
+      import { Component, member } from 'components'
+      export default <><Component /><member.Child /><intrinsic /></>
+      export const props: Props<Component> = { Component }
+    `,
+    { plugins: ['jsx', 'typescript'], sourceType: 'module' }
+  )
+  moduleToFunction(program as unknown as Program, { liveImports: true, prefix: '$' })
+
+  interface JSXName {
+    name?: string
+    object?: JSXName
+    property?: JSXName
+  }
+  const stringify = ({ name, object, property }: JSXName): string =>
+    name ?? `${stringify(object!)}.${stringify(property!)}`
+  const [, , element, properties] = program.body as unknown as [
+    unknown,
+    unknown,
+    { declarations: [{ init: { children: { openingElement: { name: JSXName } }[] } }] },
+    {
+      declarations: [{ init: { properties: [{ shorthand: boolean; value: { object: JSXName } }] } }]
+    }
+  ]
+
+  assert.deepEqual(
+    element.declarations[0].init.children.map((child) => stringify(child.openingElement.name)),
+    ['$imported.Component', '$imported.member.Child', 'intrinsic']
+  )
+  assert.equal(properties.declarations[0].init.properties[0].shorthand, false)
+})
+
+test('bundleModules inlines static dependencies', () => {
+  const ast = parse("import { a } from './a.js'\nexport const b = import('./b.js')", {
+    ecmaVersion: 'latest',
+    sourceType: 'module'
+  }) as Program
+  const result = bundleModules(
+    ast,
+    {
+      './a.js': parse("import { b } from './b.js'\nexport const a = b + 1", {
+        ecmaVersion: 'latest',
+        sourceType: 'module'
+      }) as Program,
+      './b.js': parse("export { default as b } from 'external'\nimport.meta.url", {
+        ecmaVersion: 'latest',
+        sourceType: 'module'
+      }) as Program,
+      './unused.js': parse('', { ecmaVersion: 'latest', sourceType: 'module' }) as Program
+    },
+    { importName: 'customImport' }
+  )
+
+  assert.equal(
+    generate(ast),
+    [
+      '"use strict";',
+      'function _once(factory) {',
+      '  let result;',
+      '  return () => result ??= factory();',
+      '}',
+      'const _dependency = _once(async () => {',
+      '  const {b} = await _dependency1();',
+      '  const a = b + 1;',
+      '  return Object.freeze({',
+      '    __proto__: null,',
+      '    [Symbol.toStringTag]: "Module",',
+      '    a',
+      '  });',
+      '});',
+      'const _dependency1 = _once(async () => {',
+      "  const _imports = await customImport('external');",
+      '  customImport.meta.url;',
+      '  return Object.freeze({',
+      '    __proto__: null,',
+      '    [Symbol.toStringTag]: "Module",',
+      '    b: _imports.default',
+      '  });',
+      '});',
+      'const {a} = await _dependency();',
+      'const b = _dependency1();',
+      'return Object.freeze({',
+      '  __proto__: null,',
+      '  [Symbol.toStringTag]: "Module",',
+      '  b',
+      '});',
+      ''
+    ].join('\n')
+  )
+  assert.deepEqual(result, {
+    imports: [{ source: 'external', attributes: {}, names: ['default'] }],
+    exports: [{ kind: 'local', name: 'b' }],
+    dynamicImports: [],
+    importMeta: true,
+    async: true,
+    diagnostics: [],
+    modules: ['./a.js', './b.js']
+  })
+})
+
+test('bundleModules evaluates bundled modules once', async () => {
+  const ast = parse(
+    "import { log } from './log.js'\nimport './a.js'\nimport './b.js'\nexport { log }",
+    { ecmaVersion: 'latest', sourceType: 'module' }
+  ) as Program
+  bundleModules(ast, {
+    './log.js': parse('export const log = []', {
+      ecmaVersion: 'latest',
+      sourceType: 'module'
+    }) as Program,
+    './a.js': parse("import { log } from './log.js'\nlog.push('a')", {
+      ecmaVersion: 'latest',
+      sourceType: 'module'
+    }) as Program,
+    './b.js': parse("import { log } from './log.js'\nimport './a.js'\nlog.push('b')", {
+      ecmaVersion: 'latest',
+      sourceType: 'module'
+    }) as Program
+  })
+  const code = `export default async () => {\n${generate(ast)}}`
+  const { default: fn } = (await import(`data:text/javascript,${encodeURIComponent(code)}`)) as {
+    default: () => Promise<{ log: string[] }>
+  }
+  const { log } = await fn()
+
+  assert.deepEqual(log, ['a', 'b'])
+})
+
+test('bundleModules imports unbundled modules natively', () => {
+  const program = parse("export { url } from './a.js'\nimport('./' + name)", {
+    ecmaVersion: 'latest',
+    sourceType: 'module'
+  }) as Program
+  bundleModules(
+    { type: 'File', program },
+    {
+      './a.js': {
+        type: 'File',
+        program: parse("import 'external'\nexport const url = import.meta.url", {
+          ecmaVersion: 'latest',
+          sourceType: 'module'
+        }) as Program
+      }
+    },
+    { prefix: '$' }
+  )
+
+  assert.equal(
+    generate(program),
+    [
+      '"use strict";',
+      'function $once(factory) {',
+      '  let result;',
+      '  return () => result ??= factory();',
+      '}',
+      'const $dependency = $once(async () => {',
+      "  await import('external');",
+      '  const url = import.meta.url;',
+      '  return Object.freeze({',
+      '    __proto__: null,',
+      '    [Symbol.toStringTag]: "Module",',
+      '    url',
+      '  });',
+      '});',
+      'const $imports = await $dependency();',
+      "import('./' + name);",
+      'return Object.freeze({',
+      '  __proto__: null,',
+      '  [Symbol.toStringTag]: "Module",',
+      '  url: $imports.url',
+      '});',
+      ''
+    ].join('\n')
+  )
+})
+
+test('bundleModules throws for circular imports', () => {
+  const ast = parse("import './a.js'", { ecmaVersion: 'latest', sourceType: 'module' }) as Program
+
+  assert.throws(
+    () =>
+      bundleModules(ast, {
+        './a.js': parse("import './b.js'", {
+          ecmaVersion: 'latest',
+          sourceType: 'module'
+        }) as Program,
+        './b.js': parse("import './a.js'", {
+          ecmaVersion: 'latest',
+          sourceType: 'module'
+        }) as Program
+      }),
+    new Error('Circular imports can’t be bundled: ./a.js -> ./b.js -> ./a.js')
+  )
+})
+
+/**
+ * Run the command line interface.
+ *
+ * @param args
+ *   The command line arguments.
+ * @param input
+ *   The data to write to stdin.
+ * @param cwd
+ *   The working directory of the process.
+ * @returns
+ *   The exit code and output of the process.
+ */
+function runCli(
+  args: string[],
+  input = '',
+  cwd?: string
+): { status: null | number; stderr: string; stdout: string } {
+  const { status, stderr, stdout } = spawnSync(
+    process.execPath,
+    [fileURLToPath(new URL('cli.js', import.meta.url)), ...args],
+    { cwd, encoding: 'utf8', input }
+  )
+
+  return { status, stderr, stdout }
+}
+
+test('cli prints the function body of stdin', () => {
+  assert.deepEqual(runCli(['--import-name', '_import'], 'export { a } from "a"'), {
+    status: 0,
+    stderr: '',
+    stdout: [
+      '"use strict";',
+      'const _imports = await _import("a");',
+      'return Object.freeze({',
+      '  __proto__: null,',
+      '  [Symbol.toStringTag]: "Module",',
+      '  a: _imports.a',
+      '});',
+      ''
+    ].join('\n')
+  })
+})
+
+test('cli supports wrapper formats', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'estree-util-module-to-function-'))
+  const file = join(directory, 'input.js')
+  await writeFile(file, 'import a from "a"\nexport default a + import.meta.url\n')
+
+  const module = runCli([
+    file,
+    '--format',
+    'module',
+    '--exports-name',
+    'exports',
+    '--external',
+    'b',
+    '--import-order',
+    'sequential',
+    '--live-bindings',
+    '--meta-name',
+    'meta',
+    '--prefix',
+    '$',
+    '--remove-unused-imports',
+    '--require-name',
+    'require'
+  ])
+  assert.equal(module.status, 0)
+  assert.equal(
+    module.stdout,
+    [
+      'export default function (require, meta, exports) {',
+      '  "use strict";',
+      '  Object.defineProperties(exports, {',
+      '    default: {',
+      '      enumerable: true,',
+      '      get: () => $default_export',
+      '    }',
+      '  });',
+      '  const {default: a} = require("a");',
+      '  const $default_export = a + meta.url;',
+      '}',
+      ''
+    ].join('\n')
+  )
+
+  const iife = runCli([file, '--format', 'iife', '--repl'])
+  assert.equal(iife.status, 0)
+  assert.match(iife.stdout, /^\(async function \(\) {\n/)
+  assert.match(iife.stdout, /}\)\(\);\n$/)
+
+  const output = join(directory, 'output.js')
+  assert.equal(runCli([file, '--format', 'function', '-o', output]).status, 0)
+  assert.match(await readFile(output, 'utf8'), /^\(async function \(\) {\n/)
+})
+
+test('cli prints import attributes and phases of native imports', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'estree-util-module-to-function-'))
+  const file = join(directory, 'input.js')
+  const output = join(directory, 'output.mjs')
+  await writeFile(join(directory, 'data.json'), '{ "value": 42 }')
+  await writeFile(file, "import data from './data.json' with { type: 'json' }\nexport { data }\n")
+
+  assert.equal(runCli([file, '--format', 'module', '-o', output]).status, 0)
+  const { default: fn } = (await import(pathToFileURL(output).href)) as {
+    default: () => Promise<Record<string, unknown>>
+  }
+  assert.deepEqual((await fn()).data, { value: 42 })
+
+  const phases = runCli([], 'import defer * as ns from "a"\nexport { ns }\nimport.source("b")')
+  assert.equal(phases.status, 0)
+  assert.match(phases.stdout, /\bimport\.defer\("a"\)/)
+  assert.match(phases.stdout, /\bimport\.source\("b"\);/)
+})
+
+test('cli uses the object of an exports property path as parameter', async () => {
+  const { status, stdout } = runCli(
+    ['--format', 'module', '--exports-name', 'module.exports'],
+    'export const a = 1'
+  )
+  assert.equal(status, 0)
+
+  const { default: fn } = (await import(`data:text/javascript,${encodeURIComponent(stdout)}`)) as {
+    default: (...args: [{ exports: Record<string, unknown> }]) => undefined
+  }
+  const module = { exports: {} }
+  fn(module)
+  assert.deepEqual({ ...module.exports }, { a: 1 })
+})
+
+test('cli writes source maps', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'estree-util-module-to-function-'))
+  const file = join(directory, 'input.js')
+  const source = 'export const a = 1\n'
+  await writeFile(file, source)
+
+  const output = join(directory, 'output.js')
+  assert.equal(runCli([file, '--source-map', '--output', output]).status, 0)
+  assert.match(await readFile(output, 'utf8'), /\n\/\/# sourceMappingURL=output\.js\.map\n$/)
+  const map = JSON.parse(await readFile(`${output}.map`, 'utf8'))
+  assert.equal(map.file, 'output.js')
+  assert.deepEqual(map.sources, ['input.js'])
+  assert.deepEqual(map.sourcesContent, [source])
+
+  const inline = runCli(['-', '--source-map'], source)
+  assert.equal(inline.status, 0)
+  const [, url] = inline.stdout.match(/\n\/\/# sourceMappingURL=(.+)\n$/)!
+  const inlineMap = JSON.parse(await (await fetch(url)).text())
+  assert.deepEqual(inlineMap.sources, ['stdin'])
+  assert.deepEqual(inlineMap.sourcesContent, [source])
+
+  const relative = runCli(['input.js', '--source-map'], '', directory)
+  assert.equal(relative.status, 0)
+  const [, relativeUrl] = relative.stdout.match(/\n\/\/# sourceMappingURL=(.+)\n$/)!
+  const relativeMap = JSON.parse(await (await fetch(relativeUrl)).text())
+  assert.deepEqual(relativeMap.sources, ['input.js'])
+  assert.deepEqual(relativeMap.sourcesContent, [source])
+})
+
+test('cli reports diagnostics and errors', () => {
+  assert.deepEqual(runCli(['--validate', 'collect'], 'import a from "a"\na = 1'), {
+    status: 0,
+    stderr: "stdin:2:1: Assignment to imported binding 'a' (import-assignment)\n",
+    stdout: [
+      '"use strict";',
+      'const {default: a} = await import("a");',
+      'a = 1;',
+      'return Object.freeze({',
+      '  __proto__: null,',
+      '  [Symbol.toStringTag]: "Module"',
+      '});',
+      ''
+    ].join('\n')
+  })
+  assert.deepEqual(runCli(['--validate', 'throw'], 'import a from "a"\na = 1'), {
+    status: 1,
+    stderr: "Assignment to imported binding 'a' (2:1)\n",
+    stdout: ''
+  })
+  assert.deepEqual(runCli(['--format', 'cjs'], ''), {
+    status: 1,
+    stderr: 'Invalid value for --format: cjs. Expected one of: body, function, iife, module\n',
+    stdout: ''
+  })
+  assert.deepEqual(runCli(['--format', 'iife', '--exports-name', 'module.exports'], ''), {
+    status: 1,
+    stderr: '--format iife can’t be combined with --exports-name\n',
+    stdout: ''
+  })
+  assert.deepEqual(runCli(['a.js', 'b.js']), {
+    status: 1,
+    stderr: 'Expected at most one file, but got 2\n',
+    stdout: ''
+  })
+})
+
+test('cli prints help', () => {
+  const { status, stdout } = runCli(['--help'])
+
+  assert.equal(status, 0)
+  assert.match(stdout, /^Usage: estree-util-module-to-function \[options] \[file]\n/)
+})
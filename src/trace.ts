@@ -0,0 +1,123 @@
+import { type ImportTraceInfo, type TraceImport } from './estree-util-module-to-function.js'
+
+/**
+ * Create an error which describes which import failed.
+ *
+ * @param error
+ *   The original error.
+ * @param info
+ *   Information about the import that failed.
+ * @param url
+ *   The URL of the importing module, if it’s known.
+ * @returns
+ *   An error whose message contains the specifier, the importing module, and the position of the
+ *   import. The original error is its cause.
+ */
+function createImportError(error: unknown, info: ImportTraceInfo, url: string | undefined): Error {
+  let message =
+    info.specifier == null ? 'Failed to import a module' : `Failed to import '${info.specifier}'`
+
+  if (url != null) {
+    message += ` in ${url}`
+  }
+
+  if (info.line != null) {
+    message += ` (${info.line}:${info.column! + 1})`
+  }
+
+  message += `: ${error instanceof Error ? error.message : String(error)}`
+  return Object.assign(new Error(message), { cause: error })
+}
+
+export namespace createImportTracer {
+  /**
+   * Options for creating a trace function.
+   */
+  export interface Options {
+    /**
+     * The URL of the importing module. This is used in the messages of import errors.
+     */
+    url?: string
+
+    /**
+     * Called before a module is imported.
+     *
+     * @param info
+     *   Information about the import.
+     */
+    onImportStart?: (info: ImportTraceInfo) => unknown
+
+    /**
+     * Called after a module has been imported successfully.
+     *
+     * @param info
+     *   Information about the import. This is the same object that was passed to
+     *   `onImportStart`.
+     */
+    onImportEnd?: (info: ImportTraceInfo) => unknown
+
+    /**
+     * Called if importing a module fails.
+     *
+     * By default an error is thrown whose message contains the specifier, the URL of the importing
+     * module, and the position of the import. The original error is its `cause`.
+     *
+     * @param error
+     *   The error that was thrown.
+     * @param info
+     *   Information about the import.
+     * @returns
+     *   The error to throw instead.
+     */
+    onImportError?: (error: unknown, info: ImportTraceInfo) => unknown
+  }
+}
+
+/**
+ * Create a {@link TraceImport} function which calls hooks when a module is imported.
+ *
+ * Asynchronous imports are finished when the promise they return settles. Synchronous imports
+ * using `requireName` are finished when they return.
+ *
+ * @param options
+ *   The hooks to call, and the URL of the importing module.
+ * @returns
+ *   A function which can be passed to a function body created using `moduleToFunction()` with
+ *   `traceName`.
+ */
+export function createImportTracer({
+  onImportEnd,
+  onImportError,
+  onImportStart,
+  url
+}: createImportTracer.Options = {}): TraceImport {
+  const handleError =
+    onImportError ??
+    ((error: unknown, info: ImportTraceInfo) => createImportError(error, info, url))
+
+  return (load, info) => {
+    onImportStart?.(info)
+
+    let result: ReturnType<typeof load>
+    try {
+      result = load()
+    } catch (error) {
+      throw handleError(error, info)
+    }
+
+    if (!(result instanceof Promise)) {
+      onImportEnd?.(info)
+      return result
+    }
+
+    return result.then(
+      (value: unknown) => {
+        onImportEnd?.(info)
+        return value
+      },
+      (error: unknown) => {
+        throw handleError(error, info)
+      }
+    ) as typeof result
+  }
+}